@@ -0,0 +1,112 @@
+import { ChangeAction, KeyChangeQueue, mergeRepairs } from '../src/lib/change-queue';
+
+// Checks that a reconciliation repair and a real-time delete of the same key
+// are applied one after the other, in the order they were queued, so a
+// repair can never bring a deleted key back on the target, and that merged
+// changes only stay flagged as repairs if every change merged was one.
+// Usage: npm run test-change-queue
+
+const source = new Set<string>();
+const target = new Set<string>();
+const applied: string[] = [];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A copy reads the source first and writes the target later, like migrateKey
+async function apply(key: string, action: ChangeAction): Promise<void> {
+  if (action === 'copy') {
+    const exists = source.has(key);
+    await sleep(50);
+    if (exists) {
+      target.add(key);
+    } else {
+      target.delete(key);
+    }
+  } else if (action === 'delete') {
+    await sleep(10);
+    target.delete(key);
+  }
+  applied.push(`${key}:${action}`);
+}
+
+let failures = 0;
+function check(name: string, passed: boolean, detail: string) {
+  console.log(`${passed ? 'ok  ' : 'FAIL'} ${name}${passed ? '' : `: ${detail}`}`);
+  if (!passed) {
+    failures++;
+  }
+}
+
+async function testChangeQueue() {
+  const queue = new KeyChangeQueue<string>((key, action) => apply(key, action), 10);
+
+  // Repair in flight when the key is deleted on the source
+  source.add('a');
+  target.add('a');
+  const repair = queue.push('a', 'a', 'copy');
+  await sleep(5);
+  source.delete('a');
+  const deletion = queue.push('a', 'a', 'delete');
+  await Promise.all([repair, deletion]);
+  check('delete queued behind an in-flight repair', !target.has('a'), 'the repair restored the deleted key');
+
+  // Repair queued while a delete is in flight
+  source.add('b');
+  target.add('b');
+  source.delete('b');
+  const inFlight = queue.push('b', 'b', 'delete');
+  await sleep(5);
+  await Promise.all([inFlight, queue.push('b', 'b', 'copy')]);
+  check('repair queued behind an in-flight delete', !target.has('b'), 'the repair restored the deleted key');
+  check(
+    'changes of a key applied in push order',
+    applied.join(' ') === 'a:copy a:delete b:delete b:copy',
+    applied.join(' ')
+  );
+
+  // Every push resolves once applied, and a burst collapses into one copy
+  source.add('c');
+  applied.length = 0;
+  await Promise.all(Array.from({ length: 20 }, () => queue.push('c', 'c', 'copy')));
+  check('push resolves after the change is applied', target.has('c'), 'key c missing on the target');
+  check('burst of copies coalesced', applied.length === 2, `${applied.length} copies applied`);
+
+  await testRepairFlags();
+
+  check('queue empty at the end', queue.size === 0, `${queue.size} changes left`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+async function testRepairFlags() {
+  const flags: string[] = [];
+  const queue = new KeyChangeQueue<{ key: string; repair?: boolean }>(
+    async ({ key, repair }, action) => {
+      await sleep(20);
+      flags.push(`${key}:${action}:${repair ? 'repair' : 'change'}`);
+    },
+    10,
+    mergeRepairs
+  );
+
+  // Each key has a change in flight, so the next two pushes are merged
+  const merged = (key: string, first: boolean, second: boolean) => {
+    const inFlight = queue.push(key, { key }, 'copy');
+    return Promise.all([
+      inFlight,
+      queue.push(key, { key, repair: first }, 'copy'),
+      queue.push(key, { key, repair: second }, 'delete'),
+    ]);
+  };
+  await Promise.all([merged('r', true, false), merged('s', false, true), merged('t', true, true)]);
+
+  const last = (key: string) => flags.filter((flag) => flag.startsWith(`${key}:`)).pop();
+  check('repair merged with a later change is a change', last('r') === 'r:delete:change', String(last('r')));
+  check('change merged with a later repair is a change', last('s') === 's:delete:change', String(last('s')));
+  check('repairs merged together stay a repair', last('t') === 't:delete:repair', String(last('t')));
+  check('merged repair queue empty', queue.size === 0, `${queue.size} changes left`);
+}
+
+testChangeQueue().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
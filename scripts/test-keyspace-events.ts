@@ -0,0 +1,297 @@
+import Redis from 'ioredis';
+import { RedisMigrator } from '../src/lib/redis-migrator';
+import { computeDigest } from '../src/lib/migration-verifier';
+
+// Runs every command family that raises keyspace events against a live
+// source and checks that real-time sync brings the target in line, and that
+// each copied update counts as exactly one processed key.
+// Usage: npm run test-keyspace-events -- --source localhost:6379 --target localhost:6380
+// `npm test` runs it with SOURCE_ADDRESS and TARGET_ADDRESS, and skips it when they are unset.
+// Uses databases 0 and 1 of both instances, only touching keys under a unique prefix.
+
+interface EventCase {
+  family: string;
+  keys: string[];              // Keys compared afterwards, without the prefix
+  db?: number;                 // Database the keys are compared in, default 0
+  prepare?: (redis: Redis, key: (name: string) => string) => Promise<unknown>;
+  run: (redis: Redis, key: (name: string) => string) => Promise<unknown>;
+}
+
+const SYNC_TIMEOUT_MS = 5000;
+const TTL_TOLERANCE_MS = 2000;
+
+const cases: EventCase[] = [
+  // Strings
+  { family: 'set', keys: ['s'], run: (r, k) => r.set(k('s'), 'v') },
+  { family: 'set (mset)', keys: ['m1', 'm2'], run: (r, k) => r.mset(k('m1'), 'a', k('m2'), 'b') },
+  { family: 'setrange', keys: ['s'], prepare: (r, k) => r.set(k('s'), 'hello'), run: (r, k) => r.setrange(k('s'), 1, 'EY') },
+  { family: 'incrby', keys: ['n'], prepare: (r, k) => r.set(k('n'), '1'), run: (r, k) => r.incrby(k('n'), 41) },
+  { family: 'incrbyfloat', keys: ['n'], prepare: (r, k) => r.set(k('n'), '1'), run: (r, k) => r.incrbyfloat(k('n'), 0.5) },
+  { family: 'append', keys: ['s'], prepare: (r, k) => r.set(k('s'), 'a'), run: (r, k) => r.append(k('s'), 'b') },
+  { family: 'setbit', keys: ['b'], run: (r, k) => r.setbit(k('b'), 7, 1) },
+  { family: 'setbit (bitfield)', keys: ['b'], run: (r, k) => r.bitfield(k('b'), 'SET', 'u8', 0, 200) },
+  { family: 'set (bitop)', keys: ['d'], prepare: (r, k) => r.set(k('a'), 'ab'), run: (r, k) => r.bitop('NOT', k('d'), k('a')) },
+  { family: 'pfadd', keys: ['h'], run: (r, k) => r.pfadd(k('h'), 'a', 'b', 'c') },
+  { family: 'pfadd (pfmerge)', keys: ['h'], prepare: (r, k) => r.pfadd(k('a'), 'x'), run: (r, k) => r.pfmerge(k('h'), k('a')) },
+
+  // Generic
+  { family: 'del', keys: ['s'], prepare: (r, k) => r.set(k('s'), 'v'), run: (r, k) => r.del(k('s')) },
+  { family: 'del (unlink)', keys: ['s'], prepare: (r, k) => r.set(k('s'), 'v'), run: (r, k) => r.unlink(k('s')) },
+  { family: 'del (getdel)', keys: ['s'], prepare: (r, k) => r.set(k('s'), 'v'), run: (r, k) => r.getdel(k('s')) },
+  { family: 'rename_from/rename_to', keys: ['old', 'new'], prepare: (r, k) => r.set(k('old'), 'v'), run: (r, k) => r.rename(k('old'), k('new')) },
+  { family: 'copy_to', keys: ['src', 'dst'], prepare: (r, k) => r.set(k('src'), 'v'), run: (r, k) => r.copy(k('src'), k('dst')) },
+  {
+    family: 'restore',
+    keys: ['dst'],
+    prepare: (r, k) => r.rpush(k('src'), 'a', 'b'),
+    run: async (r, k) => r.restore(k('dst'), 0, (await r.dumpBuffer(k('src')))!),
+  },
+  { family: 'sortstore', keys: ['dst'], prepare: (r, k) => r.rpush(k('src'), '3', '1', '2'), run: (r, k) => r.sort(k('src'), 'STORE', k('dst')) },
+  { family: 'expire', keys: ['s'], prepare: (r, k) => r.set(k('s'), 'v'), run: (r, k) => r.pexpire(k('s'), 600000) },
+  { family: 'expire (getex)', keys: ['s'], prepare: (r, k) => r.set(k('s'), 'v'), run: (r, k) => r.getex(k('s'), 'PX', 600000) },
+  { family: 'persist', keys: ['s'], prepare: (r, k) => r.set(k('s'), 'v', 'PX', 600000), run: (r, k) => r.persist(k('s')) },
+  {
+    family: 'expired',
+    keys: ['s'],
+    prepare: (r, k) => r.set(k('s'), 'v', 'PX', 300000),
+    // Access after the deadline makes the source expire the key
+    run: async (r, k) => {
+      await r.pexpire(k('s'), 200);
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      return r.get(k('s'));
+    },
+  },
+  { family: 'move_from/move_to', keys: ['s'], db: 1, prepare: (r, k) => r.set(k('s'), 'v'), run: (r, k) => r.move(k('s'), 1) },
+
+  // Lists
+  { family: 'lpush', keys: ['l'], run: (r, k) => r.lpush(k('l'), 'a', 'b') },
+  { family: 'rpush', keys: ['l'], run: (r, k) => r.rpush(k('l'), 'a', 'b') },
+  { family: 'lpop', keys: ['l'], prepare: (r, k) => r.rpush(k('l'), 'a', 'b'), run: (r, k) => r.lpop(k('l')) },
+  { family: 'rpop', keys: ['l'], prepare: (r, k) => r.rpush(k('l'), 'a', 'b'), run: (r, k) => r.rpop(k('l')) },
+  { family: 'linsert', keys: ['l'], prepare: (r, k) => r.rpush(k('l'), 'a', 'c'), run: (r, k) => r.linsert(k('l'), 'BEFORE', 'c', 'b') },
+  { family: 'lset', keys: ['l'], prepare: (r, k) => r.rpush(k('l'), 'a', 'b'), run: (r, k) => r.lset(k('l'), 0, 'z') },
+  { family: 'lrem', keys: ['l'], prepare: (r, k) => r.rpush(k('l'), 'a', 'b', 'a'), run: (r, k) => r.lrem(k('l'), 0, 'a') },
+  { family: 'ltrim', keys: ['l'], prepare: (r, k) => r.rpush(k('l'), 'a', 'b', 'c'), run: (r, k) => r.ltrim(k('l'), 1, -1) },
+  { family: 'lmove (rpop/lpush)', keys: ['from', 'to'], prepare: (r, k) => r.rpush(k('from'), 'a', 'b'), run: (r, k) => r.lmove(k('from'), k('to'), 'RIGHT', 'LEFT') },
+  { family: 'lmpop', keys: ['l'], prepare: (r, k) => r.rpush(k('l'), 'a', 'b', 'c'), run: (r, k) => r.lmpop(1, k('l'), 'LEFT', 'COUNT', 2) },
+
+  // Hashes
+  { family: 'hset', keys: ['h'], run: (r, k) => r.hset(k('h'), 'f', 'v') },
+  { family: 'hincrby', keys: ['h'], prepare: (r, k) => r.hset(k('h'), 'n', '1'), run: (r, k) => r.hincrby(k('h'), 'n', 2) },
+  { family: 'hincrbyfloat', keys: ['h'], prepare: (r, k) => r.hset(k('h'), 'n', '1'), run: (r, k) => r.hincrbyfloat(k('h'), 'n', 0.5) },
+  { family: 'hdel', keys: ['h'], prepare: (r, k) => r.hset(k('h'), 'a', '1', 'b', '2'), run: (r, k) => r.hdel(k('h'), 'a') },
+  { family: 'hdel (last field)', keys: ['h'], prepare: (r, k) => r.hset(k('h'), 'a', '1'), run: (r, k) => r.hdel(k('h'), 'a') },
+
+  // Sets
+  { family: 'sadd', keys: ['s'], run: (r, k) => r.sadd(k('s'), 'a', 'b') },
+  { family: 'srem', keys: ['s'], prepare: (r, k) => r.sadd(k('s'), 'a', 'b'), run: (r, k) => r.srem(k('s'), 'a') },
+  { family: 'spop', keys: ['s'], prepare: (r, k) => r.sadd(k('s'), 'a', 'b', 'c'), run: (r, k) => r.spop(k('s')) },
+  { family: 'smove (srem/sadd)', keys: ['from', 'to'], prepare: (r, k) => r.sadd(k('from'), 'a', 'b'), run: (r, k) => r.smove(k('from'), k('to'), 'a') },
+  { family: 'sinterstore', keys: ['d'], prepare: (r, k) => r.sadd(k('a'), '1', '2'), run: (r, k) => r.sinterstore(k('d'), k('a'), k('a')) },
+  { family: 'sunionstore', keys: ['d'], prepare: (r, k) => r.sadd(k('a'), '1', '2'), run: (r, k) => r.sunionstore(k('d'), k('a')) },
+  { family: 'sdiffstore', keys: ['d'], prepare: (r, k) => r.sadd(k('a'), '1', '2'), run: (r, k) => r.sdiffstore(k('d'), k('a'), k('none')) },
+
+  // Sorted sets
+  { family: 'zadd', keys: ['z'], run: (r, k) => r.zadd(k('z'), 1, 'a', 2, 'b') },
+  { family: 'zincr', keys: ['z'], prepare: (r, k) => r.zadd(k('z'), 1, 'a'), run: (r, k) => r.zincrby(k('z'), 5, 'a') },
+  { family: 'zrem', keys: ['z'], prepare: (r, k) => r.zadd(k('z'), 1, 'a', 2, 'b'), run: (r, k) => r.zrem(k('z'), 'a') },
+  { family: 'zrembyscore', keys: ['z'], prepare: (r, k) => r.zadd(k('z'), 1, 'a', 2, 'b'), run: (r, k) => r.zremrangebyscore(k('z'), 0, 1) },
+  { family: 'zrembyrank', keys: ['z'], prepare: (r, k) => r.zadd(k('z'), 1, 'a', 2, 'b'), run: (r, k) => r.zremrangebyrank(k('z'), 0, 0) },
+  { family: 'zrembylex', keys: ['z'], prepare: (r, k) => r.zadd(k('z'), 0, 'a', 0, 'b'), run: (r, k) => r.zremrangebylex(k('z'), '[a', '[a') },
+  { family: 'zpopmin', keys: ['z'], prepare: (r, k) => r.zadd(k('z'), 1, 'a', 2, 'b'), run: (r, k) => r.zpopmin(k('z')) },
+  { family: 'zpopmax', keys: ['z'], prepare: (r, k) => r.zadd(k('z'), 1, 'a', 2, 'b'), run: (r, k) => r.zpopmax(k('z')) },
+  { family: 'zinterstore', keys: ['d'], prepare: (r, k) => r.zadd(k('a'), 1, 'x'), run: (r, k) => r.zinterstore(k('d'), 1, k('a')) },
+  { family: 'zunionstore', keys: ['d'], prepare: (r, k) => r.zadd(k('a'), 1, 'x'), run: (r, k) => r.zunionstore(k('d'), 1, k('a')) },
+  { family: 'zdiffstore', keys: ['d'], prepare: (r, k) => r.zadd(k('a'), 1, 'x'), run: (r, k) => r.zdiffstore(k('d'), 1, k('a')) },
+  { family: 'zrangestore', keys: ['d'], prepare: (r, k) => r.zadd(k('a'), 1, 'x', 2, 'y'), run: (r, k) => r.zrangestore(k('d'), k('a'), 0, 0) },
+  { family: 'zadd (geoadd)', keys: ['g'], run: (r, k) => r.geoadd(k('g'), 13.361389, 38.115556, 'Palermo') },
+  {
+    family: 'geosearchstore',
+    keys: ['d'],
+    prepare: (r, k) => r.geoadd(k('g'), 13.361389, 38.115556, 'Palermo', 15.087269, 37.502669, 'Catania'),
+    run: (r, k) => r.geosearchstore(k('d'), k('g'), 'FROMLONLAT', 15, 37, 'BYRADIUS', 200, 'km'),
+  },
+
+  // Streams
+  { family: 'xadd', keys: ['x'], prepare: (r, k) => r.xadd(k('x'), '1-1', 'f', 'v'), run: (r, k) => r.xadd(k('x'), '2-1', 'f', 'w') },
+  { family: 'xtrim', keys: ['x'], prepare: (r, k) => r.xadd(k('x'), '1-1', 'f', 'v').then(() => r.xadd(k('x'), '2-1', 'f', 'w')), run: (r, k) => r.xtrim(k('x'), 'MAXLEN', 1) },
+  { family: 'xdel', keys: ['x'], prepare: (r, k) => r.xadd(k('x'), '1-1', 'f', 'v').then(() => r.xadd(k('x'), '2-1', 'f', 'w')), run: (r, k) => r.xdel(k('x'), '1-1') },
+  { family: 'xsetid', keys: ['x'], prepare: (r, k) => r.xadd(k('x'), '1-1', 'f', 'v'), run: (r, k) => r.xsetid(k('x'), '5-0') },
+  { family: 'xgroup-create', keys: ['x'], prepare: (r, k) => r.xadd(k('x'), '1-1', 'f', 'v'), run: (r, k) => r.xgroup('CREATE', k('x'), 'g', '0') },
+  {
+    family: 'xgroup-createconsumer',
+    keys: ['x'],
+    prepare: (r, k) => r.xadd(k('x'), '1-1', 'f', 'v').then(() => r.xgroup('CREATE', k('x'), 'g', '0')),
+    run: (r, k) => r.xgroup('CREATECONSUMER', k('x'), 'g', 'c'),
+  },
+  {
+    family: 'xgroup-setid',
+    keys: ['x'],
+    prepare: (r, k) => r.xadd(k('x'), '1-1', 'f', 'v').then(() => r.xgroup('CREATE', k('x'), 'g', '0')),
+    run: (r, k) => r.xgroup('SETID', k('x'), 'g', '$'),
+  },
+  {
+    family: 'xgroup-delconsumer',
+    keys: ['x'],
+    prepare: (r, k) => r.xadd(k('x'), '1-1', 'f', 'v')
+      .then(() => r.xgroup('CREATE', k('x'), 'g', '0'))
+      .then(() => r.xgroup('CREATECONSUMER', k('x'), 'g', 'c')),
+    run: (r, k) => r.xgroup('DELCONSUMER', k('x'), 'g', 'c'),
+  },
+  {
+    family: 'xgroup-destroy',
+    keys: ['x'],
+    prepare: (r, k) => r.xadd(k('x'), '1-1', 'f', 'v').then(() => r.xgroup('CREATE', k('x'), 'g', '0')),
+    run: (r, k) => r.xgroup('DESTROY', k('x'), 'g'),
+  },
+];
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+function parseAddress(address: string, password?: string) {
+  const [host, port] = address.split(':');
+  return { host, port: parseInt(port) || 6379, password, tls: false };
+}
+
+/**
+ * True when the target key has the source key's type, expiry and value.
+ * Stream digests include consumer groups, so group changes are covered.
+ */
+async function keyInSync(source: Redis, target: Redis, key: string): Promise<boolean> {
+  const [sourceType, targetType] = await Promise.all([source.type(key), target.type(key)]);
+  if (sourceType !== targetType) {
+    return false;
+  }
+  if (sourceType === 'none') {
+    return true;
+  }
+
+  const [sourceTtl, targetTtl] = await Promise.all([source.pttl(key), target.pttl(key)]);
+  if ((sourceTtl > 0) !== (targetTtl > 0) || Math.abs(sourceTtl - targetTtl) > TTL_TOLERANCE_MS) {
+    return false;
+  }
+
+  const [sourceDigest, targetDigest] = await Promise.all([
+    computeDigest(source, key, sourceType),
+    computeDigest(target, key, targetType),
+  ]);
+  return sourceDigest === targetDigest;
+}
+
+async function waitForSync(source: Redis, target: Redis, keys: string[]): Promise<string[]> {
+  const deadline = Date.now() + SYNC_TIMEOUT_MS;
+  let pending = keys;
+  while (pending.length > 0 && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const states = await Promise.all(pending.map((key) => keyInSync(source, target, key)));
+    pending = pending.filter((_, i) => !states[i]);
+  }
+  return pending;
+}
+
+async function testKeyspaceEvents() {
+  const args = parseArgs(process.argv.slice(2));
+  const sourceAddress = args.source || process.env.SOURCE_ADDRESS;
+  const targetAddress = args.target || process.env.TARGET_ADDRESS;
+  if (!sourceAddress || !targetAddress) {
+    console.log('skip keyspace events: no source and target Redis given');
+    process.exit(0);
+  }
+  const sourceConfig = parseAddress(sourceAddress, process.env.SOURCE_PASSWORD);
+  const targetConfig = parseAddress(targetAddress, process.env.TARGET_PASSWORD);
+  const prefix = `keyspace-events-test:${Date.now()}:`;
+
+  const connect = (config: typeof sourceConfig, db: number) =>
+    new Redis({ host: config.host, port: config.port, password: config.password, db });
+  const sources = [connect(sourceConfig, 0), connect(sourceConfig, 1)];
+  const targets = [connect(targetConfig, 0), connect(targetConfig, 1)];
+
+  const migrator = new RedisMigrator(sourceConfig, targetConfig, 'keyspace-events-test', {
+    enableRealtimeSync: true,
+    databases: [{ source: 0, target: 0 }, { source: 1, target: 1 }],
+    keyFilter: { include: [`${prefix}*`] },
+  });
+  const failures: string[] = [];
+  migrator.on('error', (error) => {
+    console.error('Migrator error:', error.message);
+    failures.push('migrator error');
+  });
+  let processed = 0;
+  migrator.on('progress', (stats) => {
+    processed = stats.databases?.[0]?.processed ?? processed;
+  });
+  await migrator.start();
+
+  for (let index = 0; index < cases.length; index++) {
+    const testCase = cases[index];
+    const key = (name: string) => `${prefix}${index}:{${name}}`;
+    const db = testCase.db ?? 0;
+    const keys = testCase.keys.map(key);
+
+    if (testCase.prepare) {
+      await testCase.prepare(sources[0], key);
+      await waitForSync(sources[0], targets[0], keys);
+    }
+    await testCase.run(sources[0], key);
+
+    const outOfSync = await waitForSync(sources[db], targets[db], keys);
+    if (outOfSync.length > 0) {
+      failures.push(testCase.family);
+      console.log(`FAIL ${testCase.family}: ${outOfSync.join(', ')} differs on the target`);
+    } else {
+      console.log(`ok   ${testCase.family}`);
+    }
+  }
+
+  const familyFailures = failures.filter((failure) => failure !== 'migrator error');
+  console.log(`\n${cases.length - familyFailures.length} of ${cases.length} command families reached the target`);
+
+  // A single write to a new key is copied once and counted once
+  const countedKey = `${prefix}counted`;
+  const before = processed;
+  const copied = new Promise<void>((resolve) => {
+    migrator.on('keyProcessed', ({ key }) => {
+      if (key === countedKey) {
+        resolve();
+      }
+    });
+  });
+  await sources[0].set(countedKey, 'v');
+  await Promise.race([copied, new Promise((resolve) => setTimeout(resolve, SYNC_TIMEOUT_MS))]);
+  if (processed - before !== 1) {
+    failures.push('processed count');
+    console.log(`FAIL processed count: one update counted as ${processed - before} keys`);
+  } else {
+    console.log('ok   processed count');
+  }
+
+  await migrator.stop();
+  await migrator.cleanup();
+  for (const client of [...sources, ...targets]) {
+    const leftovers = await client.keys(`${prefix}*`);
+    if (leftovers.length > 0) {
+      await client.del(...leftovers);
+    }
+    await client.quit();
+  }
+  process.exit(failures.length > 0 ? 1 : 0);
+}
+
+process.on('unhandledRejection', (error) => {
+  console.error(error);
+  process.exit(1);
+});
+
+testKeyspaceEvents().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
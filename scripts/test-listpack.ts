@@ -0,0 +1,68 @@
+import { parseListpack } from '../src/lib/rdb-parser';
+
+// Checks that listpack entries are skipped with the back-length sizes Redis
+// writes (lpEncodeBacklen), around each size boundary, by decoding the small
+// entry that follows every large one.
+// Usage: npm run test-listpack
+
+// Back-length of an entry as Redis encodes it, most significant 7 bits first
+function encodeBacklen(length: number): Buffer {
+  const bytes: number[] = [];
+  const size = length <= 127 ? 1 : length < 16383 ? 2 : length < 2097151 ? 3 : length < 268435455 ? 4 : 5;
+  for (let i = size - 1; i >= 0; i--) {
+    const bits = Math.floor(length / Math.pow(128, i)) % 128;
+    bytes.push(i === size - 1 ? bits : bits | 128);
+  }
+  return Buffer.from(bytes);
+}
+
+// A string entry whose encoding and data take exactly `entryLength` bytes
+function stringEntry(entryLength: number): Buffer {
+  let header: Buffer;
+  if (entryLength - 2 <= 4095) {
+    const length = entryLength - 2;
+    header = Buffer.from([0xe0 | (length >> 8), length & 0xff]);
+  } else {
+    header = Buffer.alloc(5);
+    header[0] = 0xf0;
+    header.writeUInt32LE(entryLength - 5, 1);
+  }
+  const entry = Buffer.concat([header, Buffer.alloc(entryLength - header.length, 'x')]);
+  return Buffer.concat([entry, encodeBacklen(entry.length)]);
+}
+
+function listpack(entries: Buffer[]): Buffer {
+  const header = Buffer.alloc(6);
+  const body = Buffer.concat([...entries, Buffer.from([0xff])]);
+  header.writeUInt32LE(header.length + body.length, 0);
+  header.writeUInt16LE(entries.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+let failures = 0;
+function check(name: string, passed: boolean, detail: string) {
+  console.log(`${passed ? 'ok  ' : 'FAIL'} ${name}${passed ? '' : `: ${detail}`}`);
+  if (!passed) {
+    failures++;
+  }
+}
+
+// 7-bit unsigned integer 42, with its 1-byte back-length
+const marker = Buffer.from([42, 1]);
+
+for (const entryLength of [127, 128, 16382, 16383, 16384]) {
+  let items: Buffer[] = [];
+  let error = '';
+  try {
+    items = parseListpack(listpack([stringEntry(entryLength), marker]));
+  } catch (e) {
+    error = (e as Error).message;
+  }
+  check(
+    `entry of ${entryLength} bytes`,
+    items.length === 2 && items[0].length === entryLength - (entryLength - 2 <= 4095 ? 2 : 5) && items[1].toString() === '42',
+    error || `decoded ${items.length} items instead of the entry and 42`
+  );
+}
+
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,89 @@
+import { MigrationVerifier } from '../src/lib/migration-verifier';
+
+// Usage: npm run verify -- --source localhost:6379 --target localhost:6380 [--db 0] [--ttl-tolerance 2000]
+// Clusters: --source-cluster / --target-cluster with a seed node as the address.
+// Sentinel: --source-sentinels host:port,host:port --source-master mymaster (same for target).
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      const name = argv[i].slice(2);
+      const value = argv[i + 1];
+      // Flags without a value, like --source-cluster, are set to 'true'
+      if (value === undefined || value.startsWith('--')) {
+        args[name] = 'true';
+      } else {
+        args[name] = value;
+        i++;
+      }
+    }
+  }
+  return args;
+}
+
+function parseAddress(address: string, password?: string) {
+  const [host, port] = address.split(':');
+  return { host, port: parseInt(port) || 6379, password };
+}
+
+function parseEndpoint(args: Record<string, string>, side: 'source' | 'target', fallback: string, password?: string) {
+  const sentinels = args[`${side}-sentinels`]?.split(',').map((address) => {
+    const [host, port] = address.trim().split(':');
+    return { host, port: parseInt(port) || 26379 };
+  });
+  return {
+    ...parseAddress(args[side] || fallback, password),
+    cluster: args[`${side}-cluster`] === 'true' || undefined,
+    sentinels,
+    masterName: args[`${side}-master`],
+  };
+}
+
+async function verifyMigration() {
+  const args = parseArgs(process.argv.slice(2));
+  const db = parseInt(args.db) || 0;
+
+  const verifier = new MigrationVerifier(
+    { ...parseEndpoint(args, 'source', 'localhost:6379', process.env.SOURCE_PASSWORD), db },
+    { ...parseEndpoint(args, 'target', 'localhost:6380', process.env.TARGET_PASSWORD), db },
+    { ttlToleranceMs: parseInt(args['ttl-tolerance']) || 2000 }
+  );
+
+  verifier.on('progress', ({ keysChecked }) => {
+    process.stdout.write(`\rChecked ${keysChecked} keys...`);
+  });
+
+  console.log('Starting verification...');
+  const report = await verifier.run();
+
+  console.log('\n\n=== Verification Report ===');
+  console.log(`Keys checked: ${report.keysChecked}`);
+  console.log(`Matched: ${report.matched}`);
+  console.log(`Missing on target: ${report.counts.missing}`);
+  console.log(`Extra on target: ${report.counts.extra}`);
+  console.log(`Type mismatches: ${report.counts.typeMismatches}`);
+  console.log(`TTL mismatches: ${report.counts.ttlMismatches}`);
+  console.log(`Value mismatches: ${report.counts.valueMismatches}`);
+
+  const sections: Array<[string, unknown[]]> = [
+    ['Missing', report.missing],
+    ['Extra', report.extra],
+    ['Type mismatches', report.typeMismatches],
+    ['TTL mismatches', report.ttlMismatches],
+    ['Value mismatches', report.valueMismatches],
+  ];
+  for (const [title, entries] of sections) {
+    if (entries.length > 0) {
+      console.log(`\n${title}:`);
+      entries.forEach((entry) => console.log(`  ${typeof entry === 'string' ? entry : JSON.stringify(entry)}`));
+    }
+  }
+
+  const differences = Object.values(report.counts).reduce((sum, count) => sum + count, 0);
+  process.exit(differences > 0 ? 1 : 0);
+}
+
+verifyMigration().catch((error) => {
+  console.error('Verification failed:', error);
+  process.exit(2);
+});
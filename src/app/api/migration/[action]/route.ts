@@ -1,12 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { RedisMigrator } from '../../../../lib/redis-migrator';
+import { isAbsolute, join, resolve, sep } from 'path';
+import {
+  BigKeyProgress,
+  MigratorOptions,
+  ReconcileOptions,
+  ReconcileStats,
+  RedisConfig,
+  RedisMigrator,
+  TlsConfig,
+} from '../../../../lib/redis-migrator';
 import { migrator, migrationStatus, setMigrator } from '../../../../lib/migration-store';
+import { KeyFilter, KeyFilterOptions } from '../../../../lib/key-filter';
+import { KeyMapper, KeyMappingRule } from '../../../../lib/key-mapper';
+import { ConnectionSecrets, describeResume, loadCheckpoint, withSecrets } from '../../../../lib/checkpoint-store';
+import { MigrationVerifier } from '../../../../lib/migration-verifier';
+import { RateLimitOptions, RateLimitState } from '../../../../lib/rate-limiter';
+import { ConflictPolicy, ConflictRecord } from '../../../../lib/conflict-policy';
+import { AofReplayOptions } from '../../../../lib/aof-reader';
 
 /* eslint-disable @typescript-eslint/no-unused-vars */
 interface MigrationStatus {
   isRunning: boolean;
   progress: number;
   keysProcessed: number;
+  keysSkipped: number;
   totalKeys: number;
   currentSpeed: number;
   lastUpdate: Date;
@@ -14,6 +31,402 @@ interface MigrationStatus {
   recentOperations: Array<{ key: string; operation: string; timestamp: Date }>;
   recentChanges: Array<{ key: string }>;
   totalSize: number;
+  databases: DatabaseProgress[];
+  warnings: string[];
+  throttle: RateLimitState | null;
+  keysConflicted: number;
+  conflicts: ConflictRecord[];
+  bigKeys: BigKeyProgress[];
+  reconciliation: ReconcileStats | null;
+}
+
+interface DatabaseProgress {
+  shard?: string;
+  source: number;
+  target: number;
+  processed: number;
+  skipped: number;
+  total: number;
+  scanComplete: boolean;
+}
+
+// Connection fields as sent by the UI forms, where numbers arrive as strings
+interface RedisConfigBody {
+  host?: string;
+  port?: string | number;
+  username?: string;
+  password?: string;
+  path?: string;
+  tls?: boolean;
+  tlsOptions?: TlsConfig;
+  db?: string | number;
+  cluster?: boolean;
+  sentinels?: string | Array<{ host?: string; port?: string | number }>;
+  masterName?: string;
+  sentinelPassword?: string;
+}
+
+function toRedisConfig(config: RedisConfigBody = {}): RedisConfig {
+  return {
+    host: config.host || 'localhost',
+    port: parseInt(String(config.port)) || 6379,
+    username: config.username || undefined,
+    password: config.password,
+    path: config.path || undefined,
+    tls: config.tls || false,
+    tlsOptions: config.tls && config.tlsOptions ? {
+      ca: config.tlsOptions.ca || undefined,
+      cert: config.tlsOptions.cert || undefined,
+      key: config.tlsOptions.key || undefined,
+      servername: config.tlsOptions.servername || undefined,
+      rejectUnauthorized: config.tlsOptions.rejectUnauthorized !== false,
+    } : undefined,
+    db: parseInt(String(config.db)) || 0,
+    cluster: config.cluster || undefined,
+    sentinels: parseSentinels(config.sentinels),
+    masterName: config.masterName || undefined,
+    sentinelPassword: config.sentinelPassword || undefined,
+  };
+}
+
+/**
+ * Credentials sent with a resume, in the same shape as the start body's
+ * connection fields.
+ */
+function parseSecrets(config: RedisConfigBody = {}): ConnectionSecrets {
+  return {
+    username: config.username || undefined,
+    password: config.password,
+    sentinelPassword: config.sentinelPassword || undefined,
+    tlsKey: config.tlsOptions?.key || undefined,
+  };
+}
+
+/**
+ * Accepts sentinels as a list of { host, port } or as the form's
+ * comma-separated `host:port` string. The port defaults to 26379.
+ */
+function parseSentinels(value: RedisConfigBody['sentinels']): RedisConfig['sentinels'] {
+  const addresses = typeof value === 'string'
+    ? value.split(',').map((address) => address.trim()).filter(Boolean).map((address) => {
+      const separator = address.lastIndexOf(':');
+      return separator === -1
+        ? { host: address }
+        : { host: address.slice(0, separator), port: address.slice(separator + 1) };
+    })
+    : value || [];
+
+  const sentinels = addresses
+    .filter((address) => address.host)
+    .map((address) => ({ host: String(address.host), port: parseInt(String(address.port)) || 26379 }));
+  return sentinels.length > 0 ? sentinels : undefined;
+}
+
+/**
+ * Validates the optional `databases` list of the start body, e.g.
+ * `[{ "source": 3, "target": 0 }]`.
+ */
+function parseDatabaseMappings(value: unknown): Array<{ source: number; target: number }> | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('databases must be an array of { source, target } mappings');
+  }
+
+  const mappings = value.map((entry) => {
+    const source = Number(entry?.source);
+    const target = Number(entry?.target ?? entry?.source);
+    if (!Number.isInteger(source) || source < 0 || !Number.isInteger(target) || target < 0) {
+      throw new Error(`Invalid database mapping: ${JSON.stringify(entry)}`);
+    }
+    return { source, target };
+  });
+
+  const sources = new Set(mappings.map((mapping) => mapping.source));
+  if (sources.size !== mappings.length) {
+    throw new Error('Each source database can only be mapped once');
+  }
+
+  return mappings;
+}
+
+/**
+ * Validates the optional `filters` object of the start body, e.g.
+ * `{ "include": ["session:*", "cart:*"], "exclude": ["tmp:*"] }`.
+ */
+function parseKeyFilter(value: unknown): KeyFilterOptions | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object') {
+    throw new Error('filters must be an object');
+  }
+
+  const filters = value as Record<string, unknown>;
+  const options: KeyFilterOptions = {};
+  for (const field of ['include', 'exclude', 'includeRegex', 'excludeRegex'] as const) {
+    const patterns = filters[field];
+    if (patterns === undefined) {
+      continue;
+    }
+    if (!Array.isArray(patterns) || patterns.some((pattern) => typeof pattern !== 'string')) {
+      throw new Error(`filters.${field} must be an array of strings`);
+    }
+    options[field] = patterns;
+  }
+
+  try {
+    // Compile once so invalid regular expressions are reported up front
+    KeyFilter.create(options);
+  } catch (error) {
+    throw new Error(`Invalid key filter: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return options;
+}
+
+/**
+ * Validates the optional `keyMapping` rule list of the start body, e.g.
+ * `[{ "type": "prefix", "from": "svcA:", "to": "tenant42:svcA:" }]`.
+ */
+function parseKeyMapping(value: unknown): KeyMappingRule[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('keyMapping must be an array of rules');
+  }
+
+  const rules = value.map((rule): KeyMappingRule => {
+    if (rule?.type === 'prefix' && typeof rule.from === 'string' && typeof rule.to === 'string') {
+      return { type: 'prefix', from: rule.from, to: rule.to };
+    }
+    if (rule?.type === 'regex' && typeof rule.pattern === 'string' && typeof rule.replacement === 'string') {
+      return { type: 'regex', pattern: rule.pattern, replacement: rule.replacement };
+    }
+    if (rule?.type === 'drop' && typeof rule.pattern === 'string') {
+      return { type: 'drop', pattern: rule.pattern };
+    }
+    throw new Error(`Invalid key mapping rule: ${JSON.stringify(rule)}`);
+  });
+
+  try {
+    KeyMapper.create(rules);
+  } catch (error) {
+    throw new Error(`Invalid key mapping: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return rules;
+}
+
+/**
+ * Validates the `rateLimits` object of the start, limits and verify bodies, e.g.
+ * `{ "maxKeysPerSecond": 2000, "maxInFlight": 50, "latencyThresholdMs": 20 }`.
+ * Numbers may arrive as strings from the UI form; empty fields are omitted.
+ */
+function parseRateLimits(value: unknown): RateLimitOptions | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object') {
+    throw new Error('rateLimits must be an object');
+  }
+
+  const limits = value as Record<string, unknown>;
+  const options: RateLimitOptions = {};
+  for (const field of ['maxKeysPerSecond', 'maxBytesPerSecond', 'maxInFlight', 'latencyThresholdMs'] as const) {
+    if (limits[field] === undefined || limits[field] === '') {
+      continue;
+    }
+    const limit = Number(limits[field]);
+    if (!Number.isFinite(limit) || limit < 0) {
+      throw new Error(`rateLimits.${field} must be a non-negative number`);
+    }
+    options[field] = limit;
+  }
+
+  if (limits.latencyProbe !== undefined) {
+    if (limits.latencyProbe !== 'ping' && limits.latencyProbe !== 'latency-latest') {
+      throw new Error("rateLimits.latencyProbe must be 'ping' or 'latency-latest'");
+    }
+    options.latencyProbe = limits.latencyProbe;
+  }
+
+  return options;
+}
+
+const CONFLICT_POLICIES: ConflictPolicy[] = ['overwrite', 'skip', 'fail', 'newer-wins'];
+const MAX_REPORTED_CONFLICTS = 1000;
+
+/**
+ * Validates the optional `onConflict` policy of the start body.
+ */
+function parseConflictPolicy(value: unknown): ConflictPolicy | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (!CONFLICT_POLICIES.includes(value as ConflictPolicy)) {
+    throw new Error(`onConflict must be one of ${CONFLICT_POLICIES.join(', ')}`);
+  }
+  return value as ConflictPolicy;
+}
+
+// Imports and exports only read and write files under this directory
+const MIGRATION_FILES_DIR = resolve(process.env.MIGRATION_FILES_DIR || join(process.cwd(), 'migration-files'));
+
+/**
+ * Resolves a file path from a request body inside MIGRATION_FILES_DIR.
+ * Absolute paths and `..` segments are rejected, so a request can never read
+ * or write anywhere else on the server.
+ */
+function resolveFilePath(value: string): string {
+  if (isAbsolute(value) || value.split(/[\\/]/).includes('..')) {
+    throw new Error(`File paths must be relative to the migration files directory: ${value}`);
+  }
+  const filePath = resolve(MIGRATION_FILES_DIR, value);
+  if (!filePath.startsWith(MIGRATION_FILES_DIR + sep)) {
+    throw new Error(`File paths must be relative to the migration files directory: ${value}`);
+  }
+  return filePath;
+}
+
+/**
+ * Validates the AOF fields of the import body: `aofPath`, an optional
+ * `aofStartOffset` in bytes and an optional `aofStopAt`, given as Unix ms or
+ * a date string.
+ */
+function parseAofReplay(body: Record<string, unknown>): AofReplayOptions {
+  const path = typeof body.aofPath === 'string' && body.aofPath.trim() ? resolveFilePath(body.aofPath.trim()) : '';
+
+  let startOffset: number | undefined;
+  if (body.aofStartOffset !== undefined && body.aofStartOffset !== '') {
+    startOffset = Number(body.aofStartOffset);
+    if (!Number.isInteger(startOffset) || startOffset < 0) {
+      throw new Error('aofStartOffset must be a non-negative integer');
+    }
+  }
+
+  let stopAt: number | undefined;
+  if (body.aofStopAt !== undefined && body.aofStopAt !== '') {
+    stopAt = typeof body.aofStopAt === 'number' ? body.aofStopAt : Date.parse(String(body.aofStopAt));
+    if (!Number.isFinite(stopAt)) {
+      throw new Error('aofStopAt must be a Unix time in ms or a date');
+    }
+  }
+
+  return { path, startOffset, stopAt };
+}
+
+/**
+ * Validates the optional `reconcile` object of the start body, e.g.
+ * `{ "intervalMs": 300000, "compareContent": true }`. An empty or zero
+ * interval turns the sweeps off.
+ */
+function parseReconcileOptions(value: unknown): ReconcileOptions | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object') {
+    throw new Error('reconcile must be an object');
+  }
+
+  const options = value as Record<string, unknown>;
+  if (options.intervalMs === undefined || options.intervalMs === '' || Number(options.intervalMs) === 0) {
+    return undefined;
+  }
+  const intervalMs = Number(options.intervalMs);
+  if (!Number.isFinite(intervalMs) || intervalMs < 1000) {
+    throw new Error('reconcile.intervalMs must be at least 1000');
+  }
+
+  return { intervalMs, compareContent: options.compareContent === true };
+}
+
+/**
+ * Builds the migration options shared by the start and plan actions.
+ */
+function parseMigratorOptions(body: Record<string, unknown>): MigratorOptions {
+  return {
+    transferMode: body.transferMode === 'native' ? 'native' : 'dump',
+    changeCapture: body.changeCapture === 'replication' ? 'replication' : 'notifications',
+    databases: parseDatabaseMappings(body.databases),
+    keyFilter: parseKeyFilter(body.filters),
+    keyMapping: parseKeyMapping(body.keyMapping),
+    rateLimits: parseRateLimits(body.rateLimits),
+    onConflict: parseConflictPolicy(body.onConflict),
+    conflictTimestampField: typeof body.conflictTimestampField === 'string' && body.conflictTimestampField
+      ? body.conflictTimestampField
+      : undefined,
+    bigKeyThreshold: parseInt(String(body.bigKeyThreshold)) || undefined,
+    bigKeyChunkSize: parseInt(String(body.bigKeyChunkSize)) || undefined,
+    realtimeConcurrency: parseInt(String(body.realtimeConcurrency)) || undefined,
+    reconcile: parseReconcileOptions(body.reconcile),
+  };
+}
+
+/**
+ * Validates a new migrator's connections, mirrors its progress into the shared
+ * status and starts it in the background. Returns an error response when the
+ * connections cannot be validated.
+ */
+async function launchMigrator(migratorInstance: RedisMigrator): Promise<NextResponse | null> {
+  // Validate connections before proceeding
+  try {
+    await migratorInstance.validateConnections();
+  } catch (error) {
+    // Clean up the instance
+    await migratorInstance.cleanup();
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Connection validation failed' },
+      { status: 400 }
+    );
+  }
+
+  // Only set up event handlers and start migration if validation passes
+  migratorInstance.on('progress', (stats) => {
+    migrationStatus.progress = stats.percent;
+    migrationStatus.keysProcessed = stats.processed;
+    migrationStatus.keysSkipped = stats.skipped || 0;
+    migrationStatus.totalKeys = stats.total;
+    migrationStatus.currentSpeed = stats.keysPerSecond;
+    migrationStatus.totalSize = stats.totalSize || 0;
+    migrationStatus.databases = stats.databases || [];
+    migrationStatus.bigKeys = stats.bigKeys || [];
+    migrationStatus.reconciliation = stats.reconciliation || null;
+    migrationStatus.throttle = stats.throttle || null;
+    migrationStatus.keysConflicted = stats.conflicts || 0;
+    migrationStatus.lastUpdate = new Date();
+  });
+
+  migrationStatus.keysConflicted = 0;
+  migrationStatus.conflicts = [];
+  migratorInstance.on('conflict', (conflict: ConflictRecord) => {
+    if (migrationStatus.conflicts.length < MAX_REPORTED_CONFLICTS) {
+      migrationStatus.conflicts.push(conflict);
+    }
+  });
+
+  migratorInstance.on('warning', (warning: string) => {
+    migrationStatus.warnings.push(warning);
+  });
+
+  // Only file imports finish on their own; live migrations keep syncing
+  migratorInstance.on('completed', () => {
+    migrationStatus.isRunning = false;
+  });
+
+  setMigrator(migratorInstance);
+  migrationStatus.isRunning = true;
+  
+  // Start migration in the background
+  migratorInstance.start().catch((error) => {
+    console.error('Migration error:', error);
+    migrationStatus.errors.push(error.message);
+    migrationStatus.isRunning = false;
+  });
+
+  return null;
 }
 
 export async function POST(request: NextRequest) {
@@ -24,6 +437,16 @@ export async function POST(request: NextRequest) {
       const body = await request.json();
       const { source, target, migrationId } = body;
 
+      let options: MigratorOptions;
+      try {
+        options = parseMigratorOptions(body);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid migration options' },
+          { status: 400 }
+        );
+      }
+
       if (migrationStatus.isRunning) {
         return NextResponse.json(
           { error: 'Migration already in progress' },
@@ -32,58 +455,266 @@ export async function POST(request: NextRequest) {
       }
 
       // Create migrator instance
-      const migratorInstance = new RedisMigrator(
-        {
-          host: source.host || 'localhost',
-          port: parseInt(source.port) || 6379,
-          password: source.password,
-          tls: source.tls || false,
-        },
-        {
-          host: target.host || 'localhost',
-          port: parseInt(target.port) || 6379,
-          password: target.password,
-          tls: target.tls || false,
-        },
-        migrationId,
-        { enableRealtimeSync: true }
-      );
-
-      // Validate connections before proceeding
+      let migratorInstance: RedisMigrator;
       try {
-        await migratorInstance.validateConnections();
+        migratorInstance = new RedisMigrator(
+          toRedisConfig(source),
+          toRedisConfig(target),
+          migrationId,
+          // Checkpoints are written to disk, so they are only kept when asked for
+          { ...options, enableRealtimeSync: true, checkpoint: body.checkpoint === true }
+        );
       } catch (error) {
-        // Clean up the instance
-        await migratorInstance.cleanup();
         return NextResponse.json(
-          { error: error instanceof Error ? error.message : 'Connection validation failed' },
+          { error: error instanceof Error ? error.message : 'Invalid migration options' },
           { status: 400 }
         );
       }
 
-      // Only set up event handlers and start migration if validation passes
-      migratorInstance.on('progress', (stats) => {
-        migrationStatus.progress = stats.percent;
-        migrationStatus.keysProcessed = stats.processed;
-        migrationStatus.totalKeys = stats.total;
-        migrationStatus.currentSpeed = stats.keysPerSecond;
-        migrationStatus.totalSize = stats.totalSize || 0;
-        migrationStatus.lastUpdate = new Date();
-      });
-
-      setMigrator(migratorInstance);
-      migrationStatus.isRunning = true;
-      
-      // Start migration in the background
-      migratorInstance.start().catch((error) => {
-        console.error('Migration error:', error);
-        migrationStatus.errors.push(error.message);
-        migrationStatus.isRunning = false;
-      });
+      migrationStatus.warnings = [];
+      migrationStatus.errors = [];
+      const failed = await launchMigrator(migratorInstance);
+      if (failed) {
+        return failed;
+      }
       
       return NextResponse.json({ message: 'Migration started' });
     }
 
+    if (action === 'resume') {
+      // Checkpoints hold no credentials; they are sent again with the resume
+      const { migrationId, source, target } = await request.json();
+
+      if (migrationStatus.isRunning) {
+        return NextResponse.json(
+          { error: 'Migration already in progress' },
+          { status: 400 }
+        );
+      }
+
+      let checkpoint;
+      try {
+        checkpoint = await loadCheckpoint(String(migrationId));
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Failed to load checkpoint' },
+          { status: 400 }
+        );
+      }
+      if (!checkpoint) {
+        return NextResponse.json(
+          { error: `No checkpoint found for migration ${migrationId}` },
+          { status: 404 }
+        );
+      }
+
+      let migratorInstance: RedisMigrator;
+      try {
+        migratorInstance = new RedisMigrator(
+          withSecrets(checkpoint.source, parseSecrets(source)),
+          withSecrets(checkpoint.target, parseSecrets(target)),
+          checkpoint.migrationId,
+          { ...checkpoint.options, checkpoint: true, resumeFrom: checkpoint }
+        );
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid checkpoint options' },
+          { status: 400 }
+        );
+      }
+
+      const report = describeResume(checkpoint);
+      migrationStatus.warnings = [...report];
+      migrationStatus.errors = [];
+      const failed = await launchMigrator(migratorInstance);
+      if (failed) {
+        return failed;
+      }
+
+      return NextResponse.json({ message: 'Migration resumed', migrationId: checkpoint.migrationId, report });
+    }
+
+    if (action === 'import') {
+      const body = await request.json();
+      const { target, rdbPath, archivePath, migrationId } = body;
+
+      // An RDB file, a snapshot archive from the export action or an AOF
+      let file: Pick<MigratorOptions, 'rdbFile' | 'archiveFile' | 'aofReplay'>;
+      try {
+        file = typeof rdbPath === 'string' && rdbPath.trim() ? { rdbFile: resolveFilePath(rdbPath.trim()) }
+          : typeof archivePath === 'string' && archivePath.trim() ? { archiveFile: resolveFilePath(archivePath.trim()) }
+            : { aofReplay: parseAofReplay(body) };
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid import options' },
+          { status: 400 }
+        );
+      }
+      if (file.aofReplay && !file.aofReplay.path) {
+        return NextResponse.json({ error: 'rdbPath, archivePath or aofPath is required' }, { status: 400 });
+      }
+
+      if (migrationStatus.isRunning) {
+        return NextResponse.json(
+          { error: 'Migration already in progress' },
+          { status: 400 }
+        );
+      }
+
+      let migratorInstance: RedisMigrator;
+      try {
+        // The file takes the place of the source, which is never connected
+        migratorInstance = new RedisMigrator(
+          toRedisConfig({}),
+          toRedisConfig(target),
+          migrationId || `import-${Date.now()}`,
+          { ...parseMigratorOptions(body), changeCapture: 'notifications', ...file }
+        );
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid import options' },
+          { status: 400 }
+        );
+      }
+
+      migrationStatus.warnings = [];
+      migrationStatus.errors = [];
+      const failed = await launchMigrator(migratorInstance);
+      if (failed) {
+        return failed;
+      }
+
+      return NextResponse.json({ message: 'Import started' });
+    }
+
+    if (action === 'export') {
+      const body = await request.json();
+      const { source, exportPath, migrationId } = body;
+
+      if (typeof exportPath !== 'string' || !exportPath.trim()) {
+        return NextResponse.json({ error: 'exportPath is required' }, { status: 400 });
+      }
+      let exportFile: string;
+      try {
+        exportFile = resolveFilePath(exportPath.trim());
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid export path' },
+          { status: 400 }
+        );
+      }
+
+      if (migrationStatus.isRunning) {
+        return NextResponse.json(
+          { error: 'Migration already in progress' },
+          { status: 400 }
+        );
+      }
+
+      let migratorInstance: RedisMigrator;
+      try {
+        // The archive takes the place of the target, which is never connected
+        migratorInstance = new RedisMigrator(
+          toRedisConfig(source),
+          toRedisConfig({}),
+          migrationId || `export-${Date.now()}`,
+          { ...parseMigratorOptions(body), changeCapture: 'notifications', exportFile }
+        );
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid export options' },
+          { status: 400 }
+        );
+      }
+
+      migrationStatus.warnings = [];
+      migrationStatus.errors = [];
+      const failed = await launchMigrator(migratorInstance);
+      if (failed) {
+        return failed;
+      }
+
+      return NextResponse.json({ message: 'Export started' });
+    }
+
+    if (action === 'plan') {
+      const body = await request.json();
+
+      let planner: RedisMigrator;
+      try {
+        planner = new RedisMigrator(
+          toRedisConfig(body.source),
+          toRedisConfig(body.target),
+          body.migrationId || 'plan',
+          parseMigratorOptions(body)
+        );
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid migration options' },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const plan = await planner.plan();
+        return NextResponse.json(plan);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Planning failed' },
+          { status: 400 }
+        );
+      } finally {
+        await planner.cleanup();
+      }
+    }
+
+    if (action === 'verify') {
+      const body = await request.json();
+
+      let verifier: MigrationVerifier;
+      try {
+        verifier = new MigrationVerifier(toRedisConfig(body.source), toRedisConfig(body.target), {
+          databases: parseDatabaseMappings(body.databases),
+          keyFilter: parseKeyFilter(body.filters),
+          keyMapping: parseKeyMapping(body.keyMapping),
+          ttlToleranceMs: parseInt(body.ttlToleranceMs) || undefined,
+          rateLimits: parseRateLimits(body.rateLimits),
+        });
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid verification options' },
+          { status: 400 }
+        );
+      }
+
+      const report = await verifier.run();
+      return NextResponse.json(report);
+    }
+
+    if (action === 'limits') {
+      const body = await request.json();
+
+      let limits: RateLimitOptions | undefined;
+      try {
+        limits = parseRateLimits(body.rateLimits ?? body);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid rate limits' },
+          { status: 400 }
+        );
+      }
+
+      if (!migrator || !migrationStatus.isRunning) {
+        return NextResponse.json(
+          { error: 'No migration in progress' },
+          { status: 400 }
+        );
+      }
+
+      migrator.updateRateLimits(limits || {});
+      return NextResponse.json({ message: 'Rate limits updated', throttle: migrationStatus.throttle });
+    }
+
     if (action === 'stop') {
       if (migrator) {
         await migrator.stop();
@@ -7,6 +7,7 @@ import { migrator } from '@/lib/migration-store';
 interface EventData {
   type: 'progress' | 'keyProcessed' | 'error';
   processed?: number;
+  skipped?: number;
   total?: number;
   percent?: number;
   keysPerSecond?: number;
@@ -26,6 +27,7 @@ export async function GET() {
       const handlers = {
         progress: (stats: {
           processed: number;
+          skipped: number;
           total: number;
           percent: number;
           keysPerSecond: number;
@@ -1,6 +1,6 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 "use client";
-import { useState, useEffect } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
@@ -20,17 +20,33 @@ import {
 import Image from 'next/image';
 import { Activity, Shield, Radio } from 'lucide-react';
 
+interface TlsOptions {
+  ca?: string;
+  cert?: string;
+  key?: string;
+  servername?: string;
+  rejectUnauthorized?: boolean;
+}
+
 interface RedisConfig {
   host: string;
   port: string;
+  username?: string;
   password?: string;
+  path?: string;
   tls: boolean;
+  tlsOptions?: TlsOptions;
+  cluster?: boolean;
+  sentinels?: string;
+  masterName?: string;
+  sentinelPassword?: string;
 }
 
 interface MigrationStatus {
   isRunning: boolean;
   progress: number;
   keysProcessed: number;
+  keysSkipped?: number;
   totalKeys: number;
   currentSpeed: number;
   errors: string[];
@@ -48,6 +64,92 @@ interface MigrationStatus {
   totalSize: number;
   migrationId?: string;
   startTime?: Date;
+  databases?: Array<{
+    shard?: string;
+    source: number;
+    target: number;
+    processed: number;
+    skipped: number;
+    total: number;
+    scanComplete: boolean;
+  }>;
+  warnings?: string[];
+  throttle?: {
+    effectiveInFlight: number;
+    backoffFactor: number;
+    sourceLatencyMs: number | null;
+  } | null;
+  keysConflicted?: number;
+  bigKeys?: Array<{
+    key: string;
+    db: number;
+    type: string;
+    copied: number;
+    total: number;
+  }>;
+  conflicts?: Array<{
+    key: string;
+    targetKey: string;
+    db: number;
+    resolution: string;
+    detectedAt: string;
+  }>;
+  reconciliation?: {
+    sweeps: number;
+    checked: number;
+    repaired: number;
+    lastSweepAt: string | null;
+    lastRepaired: number;
+    lastExtraKeys: number;
+  } | null;
+}
+
+// Form values of the snapshot load caps; empty means unlimited
+interface RateLimits {
+  maxKeysPerSecond: string;
+  maxBytesPerSecond: string;
+  maxInFlight: string;
+  latencyThresholdMs: string;
+}
+
+interface VerificationReport {
+  startedAt: string;
+  finishedAt: string;
+  keysChecked: number;
+  matched: number;
+  counts: {
+    missing: number;
+    extra: number;
+    typeMismatches: number;
+    ttlMismatches: number;
+    valueMismatches: number;
+  };
+  missing: string[];
+  extra: string[];
+  typeMismatches: Array<{ key: string; sourceType: string; targetType: string }>;
+  ttlMismatches: Array<{ key: string; sourceTtl: number; targetTtl: number }>;
+  valueMismatches: Array<{ key: string; type: string }>;
+}
+
+interface MigrationPlan {
+  generatedAt: string;
+  totalKeys: number;
+  totalBytes: number;
+  byType: Record<string, { keys: number; bytes: number }>;
+  ttl: {
+    noExpiry: number;
+    underMinute: number;
+    underHour: number;
+    underDay: number;
+    overDay: number;
+  };
+  largestKeys: Array<{ key: string; db: number; type: string; bytes: number }>;
+  unsupportedTypes: Record<string, number>;
+  memory: {
+    keys: number;
+    targetUsed: number;
+    projected: number;
+  };
 }
 
 interface PerformanceData {
@@ -137,6 +239,31 @@ export default function RedisMigration() {
   // Add new state for completion time
   const [completionDuration, setCompletionDuration] = useState<number | null>(null);
 
+  const [plan, setPlan] = useState<MigrationPlan | null>(null);
+  const [planning, setPlanning] = useState(false);
+
+  const [verification, setVerification] = useState<VerificationReport | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verificationError, setVerificationError] = useState<string | null>(null);
+
+  const [rateLimits, setRateLimits] = useState<RateLimits>({
+    maxKeysPerSecond: '',
+    maxBytesPerSecond: '',
+    maxInFlight: '',
+    latencyThresholdMs: '',
+  });
+  const [applyingLimits, setApplyingLimits] = useState(false);
+
+  const [onConflict, setOnConflict] = useState('overwrite');
+  const [changeCapture, setChangeCapture] = useState('notifications');
+  // Minutes between reconciliation sweeps; empty turns them off
+  const [reconcile, setReconcile] = useState({ intervalMinutes: '', compareContent: false });
+  const [checkpoint, setCheckpoint] = useState(false);
+  const [rdbPath, setRdbPath] = useState('');
+  const [archivePath, setArchivePath] = useState('');
+  const [aofReplay, setAofReplay] = useState({ path: '', startOffset: '', stopAt: '' });
+  const [conflictTimestampField, setConflictTimestampField] = useState('updatedAt');
+
   useEffect(() => {
     if (status.isRunning) {
       const eventSource = new EventSource('/api/migration/events');
@@ -173,6 +300,24 @@ export default function RedisMigration() {
     };
   }, [status.isRunning]);
 
+  // Options sent with both the plan and the migration it describes
+  const migrationOptions = () => ({
+    rateLimits,
+    onConflict,
+    conflictTimestampField: onConflict === 'newer-wins' ? conflictTimestampField : undefined,
+    changeCapture,
+    reconcile: {
+      intervalMs: reconcile.intervalMinutes ? Number(reconcile.intervalMinutes) * 60000 : undefined,
+      compareContent: reconcile.compareContent,
+    },
+    checkpoint: checkpoint && changeCapture !== 'replication',
+  });
+
+  // A plan only describes the settings it was generated for
+  useEffect(() => {
+    setPlan(null);
+  }, [source, target, rateLimits, onConflict, conflictTimestampField, changeCapture, reconcile, checkpoint]);
+
   useEffect(() => {
     if (status.progress >= 100 && !completionDuration && status.startTime) {
       setCompletionDuration(Date.now() - new Date(status.startTime).getTime());
@@ -201,7 +346,12 @@ export default function RedisMigration() {
       const response = await fetch('/api/migration/start', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ source, target, migrationId }),
+        body: JSON.stringify({
+          source,
+          target,
+          migrationId,
+          ...migrationOptions(),
+        }),
       });
 
       const data = await response.json();
@@ -261,6 +411,58 @@ export default function RedisMigration() {
     }
   };
 
+  // Imports write a file to the target; exports write the source to a file
+  const runFileTransfer = async (action: 'import' | 'export', fields: Record<string, unknown>) => {
+    setValidationError(null);
+    setStatus(prev => ({ ...prev, errors: [] }));
+
+    try {
+      const migrationId = crypto.randomUUID();
+      const response = await fetch(`/api/migration/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...fields,
+          migrationId,
+          onConflict,
+          conflictTimestampField: onConflict === 'newer-wins' ? conflictTimestampField : undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        if (data.error?.includes('Source Redis:') || data.error?.includes('Target Redis:')) {
+          setValidationError(data.error);
+        } else {
+          throw new Error(data.error || `Failed to start ${action}`);
+        }
+        return;
+      }
+
+      setStatus(prev => ({
+        ...prev,
+        isRunning: true,
+        errors: [],
+        progress: 0,
+        keysProcessed: 0,
+        totalKeys: 0,
+        totalSize: 0,
+        currentSpeed: 0,
+        migrationId,
+        startTime: new Date()
+      }));
+      setPerformanceHistory([]);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`${action} error:`, errorMessage);
+      setStatus(prev => ({
+        ...prev,
+        errors: [...prev.errors, errorMessage],
+        isRunning: false
+      }));
+    }
+  };
+
   const stopMigration = async () => {
     // Add confirmation dialog
     if (!window.confirm('Are you sure you want to stop the migration? This will halt the real-time synchronization process.')) {
@@ -302,6 +504,94 @@ export default function RedisMigration() {
     }
   };
 
+  // Certificates are sent as PEM contents, so uploads are read in the browser
+  const uploadCertificate = async (
+    setConfig: React.Dispatch<React.SetStateAction<RedisConfig>>,
+    field: 'ca' | 'cert' | 'key',
+    file?: File
+  ) => {
+    const contents = file ? await file.text() : undefined;
+    setConfig(prev => ({ ...prev, tlsOptions: { ...prev.tlsOptions, [field]: contents } }));
+  };
+
+  const applyRateLimits = async () => {
+    setApplyingLimits(true);
+
+    try {
+      // Empty fields remove the cap on a running migration
+      const limits = Object.fromEntries(
+        Object.entries(rateLimits).map(([field, value]) => [field, value || 0])
+      );
+      const response = await fetch('/api/migration/limits', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rateLimits: limits }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update rate limits');
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      setStatus(prev => ({
+        ...prev,
+        errors: [...prev.errors, errorMessage],
+      }));
+    } finally {
+      setApplyingLimits(false);
+    }
+  };
+
+  const planMigration = async () => {
+    setValidationError(null);
+    setPlanning(true);
+
+    try {
+      const response = await fetch('/api/migration/plan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source, target, ...migrationOptions() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setValidationError(data.error || 'Failed to plan migration');
+        return;
+      }
+
+      setPlan(data);
+    } catch (error: unknown) {
+      setValidationError(error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const runVerification = async () => {
+    setVerifying(true);
+    setVerificationError(null);
+
+    try {
+      const response = await fetch('/api/migration/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source, target, rateLimits }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Verification failed');
+      }
+
+      setVerification(data);
+    } catch (error: unknown) {
+      setVerificationError(error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
   const pollStatus = async () => {
     try {
       const response = await fetch('/api/migration/status');
@@ -455,6 +745,22 @@ export default function RedisMigration() {
                     placeholder="6379"
                   />
                 </div>
+                <div>
+                  <Label>Unix Socket Path</Label>
+                  <Input
+                    value={source.path || ''}
+                    onChange={e => setSource(prev => ({ ...prev, path: e.target.value }))}
+                    placeholder="Optional, replaces host and port"
+                  />
+                </div>
+                <div>
+                  <Label>Username</Label>
+                  <Input
+                    value={source.username || ''}
+                    onChange={e => setSource(prev => ({ ...prev, username: e.target.value }))}
+                    placeholder="Optional, ACL user"
+                  />
+                </div>
                 <div>
                   <Label>Password</Label>
                   <Input
@@ -471,6 +777,85 @@ export default function RedisMigration() {
                   />
                   <Label>TLS Enabled</Label>
                 </div>
+                {source.tls && (
+                  <>
+                    <div>
+                      <Label>CA Certificate{source.tlsOptions?.ca ? ' (uploaded)' : ''}</Label>
+                      <Input
+                        type="file"
+                        accept=".pem,.crt"
+                        onChange={e => uploadCertificate(setSource, 'ca', e.target.files?.[0])}
+                      />
+                    </div>
+                    <div>
+                      <Label>Client Certificate{source.tlsOptions?.cert ? ' (uploaded)' : ''}</Label>
+                      <Input
+                        type="file"
+                        accept=".pem,.crt"
+                        onChange={e => uploadCertificate(setSource, 'cert', e.target.files?.[0])}
+                      />
+                    </div>
+                    <div>
+                      <Label>Client Key{source.tlsOptions?.key ? ' (uploaded)' : ''}</Label>
+                      <Input
+                        type="file"
+                        accept=".pem,.key"
+                        onChange={e => uploadCertificate(setSource, 'key', e.target.files?.[0])}
+                      />
+                    </div>
+                    <div>
+                      <Label>Server Name (SNI)</Label>
+                      <Input
+                        value={source.tlsOptions?.servername || ''}
+                        onChange={e => setSource(prev => ({ ...prev, tlsOptions: { ...prev.tlsOptions, servername: e.target.value } }))}
+                        placeholder="Optional, defaults to the host"
+                      />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={source.tlsOptions?.rejectUnauthorized !== false}
+                        onCheckedChange={checked => setSource(prev => ({ ...prev, tlsOptions: { ...prev.tlsOptions, rejectUnauthorized: checked } }))}
+                      />
+                      <Label>Verify Server Certificate</Label>
+                    </div>
+                  </>
+                )}
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={source.cluster || false}
+                    onCheckedChange={checked => setSource(prev => ({ ...prev, cluster: checked }))}
+                  />
+                  <Label>Redis Cluster (host is any node)</Label>
+                </div>
+                <div>
+                  <Label>Sentinels</Label>
+                  <Input
+                    value={source.sentinels || ''}
+                    onChange={e => setSource(prev => ({ ...prev, sentinels: e.target.value }))}
+                    placeholder="Optional, e.g. sentinel-1:26379, sentinel-2:26379"
+                  />
+                </div>
+                {source.sentinels && (
+                  <>
+                    <div>
+                      <Label>Master Name</Label>
+                      <Input
+                        value={source.masterName || ''}
+                        onChange={e => setSource(prev => ({ ...prev, masterName: e.target.value }))}
+                        placeholder="mymaster"
+                      />
+                    </div>
+                    <div>
+                      <Label>Sentinel Password</Label>
+                      <Input
+                        type="password"
+                        value={source.sentinelPassword || ''}
+                        onChange={e => setSource(prev => ({ ...prev, sentinelPassword: e.target.value }))}
+                        placeholder="Optional"
+                      />
+                    </div>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -498,6 +883,22 @@ export default function RedisMigration() {
                     placeholder="6379"
                   />
                 </div>
+                <div>
+                  <Label>Unix Socket Path</Label>
+                  <Input
+                    value={target.path || ''}
+                    onChange={e => setTarget(prev => ({ ...prev, path: e.target.value }))}
+                    placeholder="Optional, replaces host and port"
+                  />
+                </div>
+                <div>
+                  <Label>Username</Label>
+                  <Input
+                    value={target.username || ''}
+                    onChange={e => setTarget(prev => ({ ...prev, username: e.target.value }))}
+                    placeholder="Optional, ACL user"
+                  />
+                </div>
                 <div>
                   <Label>Password</Label>
                   <Input
@@ -514,17 +915,408 @@ export default function RedisMigration() {
                   />
                   <Label>TLS Enabled</Label>
                 </div>
+                {target.tls && (
+                  <>
+                    <div>
+                      <Label>CA Certificate{target.tlsOptions?.ca ? ' (uploaded)' : ''}</Label>
+                      <Input
+                        type="file"
+                        accept=".pem,.crt"
+                        onChange={e => uploadCertificate(setTarget, 'ca', e.target.files?.[0])}
+                      />
+                    </div>
+                    <div>
+                      <Label>Client Certificate{target.tlsOptions?.cert ? ' (uploaded)' : ''}</Label>
+                      <Input
+                        type="file"
+                        accept=".pem,.crt"
+                        onChange={e => uploadCertificate(setTarget, 'cert', e.target.files?.[0])}
+                      />
+                    </div>
+                    <div>
+                      <Label>Client Key{target.tlsOptions?.key ? ' (uploaded)' : ''}</Label>
+                      <Input
+                        type="file"
+                        accept=".pem,.key"
+                        onChange={e => uploadCertificate(setTarget, 'key', e.target.files?.[0])}
+                      />
+                    </div>
+                    <div>
+                      <Label>Server Name (SNI)</Label>
+                      <Input
+                        value={target.tlsOptions?.servername || ''}
+                        onChange={e => setTarget(prev => ({ ...prev, tlsOptions: { ...prev.tlsOptions, servername: e.target.value } }))}
+                        placeholder="Optional, defaults to the host"
+                      />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={target.tlsOptions?.rejectUnauthorized !== false}
+                        onCheckedChange={checked => setTarget(prev => ({ ...prev, tlsOptions: { ...prev.tlsOptions, rejectUnauthorized: checked } }))}
+                      />
+                      <Label>Verify Server Certificate</Label>
+                    </div>
+                  </>
+                )}
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={target.cluster || false}
+                    onCheckedChange={checked => setTarget(prev => ({ ...prev, cluster: checked }))}
+                  />
+                  <Label>Redis Cluster (host is any node)</Label>
+                </div>
+                <div>
+                  <Label>Sentinels</Label>
+                  <Input
+                    value={target.sentinels || ''}
+                    onChange={e => setTarget(prev => ({ ...prev, sentinels: e.target.value }))}
+                    placeholder="Optional, e.g. sentinel-1:26379, sentinel-2:26379"
+                  />
+                </div>
+                {target.sentinels && (
+                  <>
+                    <div>
+                      <Label>Master Name</Label>
+                      <Input
+                        value={target.masterName || ''}
+                        onChange={e => setTarget(prev => ({ ...prev, masterName: e.target.value }))}
+                        placeholder="mymaster"
+                      />
+                    </div>
+                    <div>
+                      <Label>Sentinel Password</Label>
+                      <Input
+                        type="password"
+                        value={target.sentinelPassword || ''}
+                        onChange={e => setTarget(prev => ({ ...prev, sentinelPassword: e.target.value }))}
+                        placeholder="Optional"
+                      />
+                    </div>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
         </div>
 
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Source Load Limits</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <Label>Max Keys/sec</Label>
+                <Input
+                  value={rateLimits.maxKeysPerSecond}
+                  onChange={e => setRateLimits(prev => ({ ...prev, maxKeysPerSecond: e.target.value }))}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label>Max Bytes/sec</Label>
+                <Input
+                  value={rateLimits.maxBytesPerSecond}
+                  onChange={e => setRateLimits(prev => ({ ...prev, maxBytesPerSecond: e.target.value }))}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label>Max In-Flight Reads</Label>
+                <Input
+                  value={rateLimits.maxInFlight}
+                  onChange={e => setRateLimits(prev => ({ ...prev, maxInFlight: e.target.value }))}
+                  placeholder="1000"
+                />
+              </div>
+              <div>
+                <Label>Back Off Above Latency (ms)</Label>
+                <Input
+                  value={rateLimits.latencyThresholdMs}
+                  onChange={e => setRateLimits(prev => ({ ...prev, latencyThresholdMs: e.target.value }))}
+                  placeholder="Disabled"
+                />
+              </div>
+            </div>
+            {status.isRunning && (
+              <div className="mt-4 flex justify-end">
+                <Button variant="outline" onClick={applyRateLimits} disabled={applyingLimits}>
+                  {applyingLimits ? 'Applying...' : 'Apply Limits'}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Keys Already on the Target</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>On Conflict</Label>
+                <select
+                  value={onConflict}
+                  onChange={e => setOnConflict(e.target.value)}
+                  disabled={status.isRunning}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="overwrite">Overwrite the target key</option>
+                  <option value="skip">Keep the target key</option>
+                  <option value="fail">Fail the migration</option>
+                  <option value="newer-wins">Keep the newer key</option>
+                </select>
+              </div>
+              {onConflict === 'newer-wins' && (
+                <div>
+                  <Label>Timestamp Field</Label>
+                  <Input
+                    value={conflictTimestampField}
+                    onChange={e => setConflictTimestampField(e.target.value)}
+                    disabled={status.isRunning}
+                    placeholder="updatedAt"
+                  />
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Change Capture</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Follow Source Changes With</Label>
+                <select
+                  value={changeCapture}
+                  onChange={e => setChangeCapture(e.target.value)}
+                  disabled={status.isRunning}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="notifications">Keyspace notifications (SCAN snapshot)</option>
+                  <option value="replication">Replication (PSYNC, acts as a replica)</option>
+                </select>
+              </div>
+              {changeCapture === 'replication' && (
+                <p className="text-sm text-gray-500 self-end">
+                  The source user needs the PSYNC and REPLCONF commands. Migrations in this mode cannot be resumed.
+                </p>
+              )}
+              <div>
+                <Label>Reconcile Every (minutes)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={reconcile.intervalMinutes}
+                  onChange={e => setReconcile(prev => ({ ...prev, intervalMinutes: e.target.value }))}
+                  placeholder="Off"
+                  disabled={status.isRunning}
+                />
+              </div>
+              <div className="flex items-center space-x-2 self-end">
+                <Switch
+                  checked={reconcile.compareContent}
+                  onCheckedChange={checked => setReconcile(prev => ({ ...prev, compareContent: checked }))}
+                  disabled={status.isRunning}
+                />
+                <Label>Compare Values (slower; type, length and TTL are always compared)</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  checked={checkpoint}
+                  onCheckedChange={setCheckpoint}
+                  disabled={status.isRunning || changeCapture === 'replication'}
+                />
+                <Label>Save Checkpoints (resumable; credentials are not saved and must be given again on resume)</Label>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Import RDB Backup</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>RDB File (in the server&apos;s migration files directory)</Label>
+                <Input
+                  value={rdbPath}
+                  onChange={e => setRdbPath(e.target.value)}
+                  placeholder="backups/dump.rdb"
+                  disabled={status.isRunning}
+                />
+              </div>
+              <div className="flex items-end gap-4">
+                <Button
+                  onClick={() => runFileTransfer('import', { target, rdbPath })}
+                  disabled={status.isRunning || !rdbPath.trim()}
+                >
+                  Import into Target
+                </Button>
+                <p className="text-sm text-gray-500">
+                  Writes the keys of db 0 of the file to the target, without connecting to the source.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Snapshot Archive</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Archive File (in the server&apos;s migration files directory)</Label>
+                <Input
+                  value={archivePath}
+                  onChange={e => setArchivePath(e.target.value)}
+                  placeholder="snapshot.ndjson.gz"
+                  disabled={status.isRunning}
+                />
+              </div>
+              <div className="flex items-end gap-4">
+                <Button
+                  onClick={() => runFileTransfer('export', { source, exportPath: archivePath })}
+                  disabled={status.isRunning || !archivePath.trim()}
+                >
+                  Export Source
+                </Button>
+                <Button
+                  onClick={() => runFileTransfer('import', { target, archivePath })}
+                  disabled={status.isRunning || !archivePath.trim()}
+                >
+                  Import into Target
+                </Button>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500 mt-2">
+              A gzipped JSON-lines copy of the source, one record per key, that can be carried to a target on another network.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Replay AOF</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>AOF File, Manifest or Directory (in the server&apos;s migration files directory)</Label>
+                <Input
+                  value={aofReplay.path}
+                  onChange={e => setAofReplay(prev => ({ ...prev, path: e.target.value }))}
+                  placeholder="appendonlydir"
+                  disabled={status.isRunning}
+                />
+              </div>
+              <div>
+                <Label>Start Offset (bytes)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={aofReplay.startOffset}
+                  onChange={e => setAofReplay(prev => ({ ...prev, startOffset: e.target.value }))}
+                  placeholder="0"
+                  disabled={status.isRunning}
+                />
+              </div>
+              <div>
+                <Label>Stop At</Label>
+                <Input
+                  type="datetime-local"
+                  value={aofReplay.stopAt}
+                  onChange={e => setAofReplay(prev => ({ ...prev, stopAt: e.target.value }))}
+                  disabled={status.isRunning}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-4 mt-4">
+              <Button
+                onClick={() => runFileTransfer('import', {
+                  target,
+                  aofPath: aofReplay.path,
+                  aofStartOffset: aofReplay.startOffset,
+                  // datetime-local has no zone; send the instant it means here
+                  aofStopAt: aofReplay.stopAt ? new Date(aofReplay.stopAt).getTime() : undefined,
+                })}
+                disabled={status.isRunning || !aofReplay.path.trim()}
+              >
+                Replay into Target
+              </Button>
+              <p className="text-sm text-gray-500">
+                Stopping at a time needs aof-timestamp-enabled on the source. The offset reached is listed under warnings.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Add this section for migration controls */}
+        {plan && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Migration Plan (dry run)</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div className="space-y-1">
+                  <h3 className="font-semibold mb-2">Keyspace</h3>
+                  <p>Keys: {plan.totalKeys}</p>
+                  <p>Data Size: {formatBytes(plan.totalBytes)}</p>
+                  {Object.entries(plan.byType).map(([type, { keys, bytes }]) => (
+                    <p key={type}>{type}: {keys} keys, {formatBytes(bytes)}</p>
+                  ))}
+                  {Object.entries(plan.unsupportedTypes).map(([type, keys]) => (
+                    <p key={type} className="text-red-600">
+                      {type}: {keys} keys only copied with DUMP/RESTORE
+                    </p>
+                  ))}
+                </div>
+                <div className="space-y-1">
+                  <h3 className="font-semibold mb-2">TTL Distribution</h3>
+                  <p>No expiry: {plan.ttl.noExpiry}</p>
+                  <p>Under 1 minute: {plan.ttl.underMinute}</p>
+                  <p>Under 1 hour: {plan.ttl.underHour}</p>
+                  <p>Under 1 day: {plan.ttl.underDay}</p>
+                  <p>Over 1 day: {plan.ttl.overDay}</p>
+                  <h3 className="font-semibold mt-4 mb-2">Target Memory</h3>
+                  <p>Currently used: {formatBytes(plan.memory.targetUsed)}</p>
+                  <p>Projected: {formatBytes(plan.memory.projected)}</p>
+                </div>
+                <div className="space-y-1">
+                  <h3 className="font-semibold mb-2">Largest Keys</h3>
+                  {plan.largestKeys.map(({ key, db, type, bytes }) => (
+                    <p key={`${db}-${key}`} className="font-mono text-xs">
+                      {key} ({type}, {formatBytes(bytes)})
+                    </p>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="mt-6 flex justify-center gap-4">
+          <Button
+            size="lg"
+            variant="outline"
+            onClick={planMigration}
+            disabled={planning || status.isRunning || !source.host || !target.host}
+          >
+            {planning ? 'Planning...' : 'Plan Migration'}
+          </Button>
           <Button
             size="lg"
             onClick={startMigration}
-            disabled={status.isRunning || !source.host || !target.host}
+            disabled={status.isRunning || !source.host || !target.host || !plan}
           >
             Start Migration
           </Button>
@@ -576,6 +1368,45 @@ export default function RedisMigration() {
                 </p>
               </div>
             </div>
+            {status.bigKeys && status.bigKeys.length > 0 && (
+              <div className="mt-4 space-y-1 text-sm">
+                {status.bigKeys.map((bigKey) => (
+                  <p key={`${bigKey.db}-${bigKey.key}`}>
+                    Copying large {bigKey.type} <span className="font-mono">{bigKey.key}</span>:{' '}
+                    {bigKey.copied} / {bigKey.total} elements
+                  </p>
+                ))}
+              </div>
+            )}
+            {status.throttle && (
+              <p className="mt-4 text-sm text-gray-600">
+                Source reads in flight: up to {status.throttle.effectiveInFlight}
+                {status.throttle.sourceLatencyMs !== null && ` · source latency ${status.throttle.sourceLatencyMs} ms`}
+                {status.throttle.backoffFactor < 1 && (
+                  <span className="text-yellow-700"> · backing off to {Math.round(status.throttle.backoffFactor * 100)}% of the configured limits</span>
+                )}
+              </p>
+            )}
+            {status.reconciliation && (status.reconciliation.sweeps > 0 || status.reconciliation.checked > 0) && (
+              <p className="mt-4 text-sm text-gray-600">
+                Reconciliation: {status.reconciliation.sweeps} sweeps, {status.reconciliation.repaired} of{' '}
+                {status.reconciliation.checked} checked keys repaired
+                {status.reconciliation.lastSweepAt && (
+                  ` · last sweep ${new Date(status.reconciliation.lastSweepAt).toLocaleTimeString()}`
+                  + ` repaired ${status.reconciliation.lastRepaired}`
+                )}
+                {status.reconciliation.lastExtraKeys > 0 && (
+                  ` · ${status.reconciliation.lastExtraKeys} target keys without a source key`
+                )}
+              </p>
+            )}
+            {status.warnings && status.warnings.length > 0 && (
+              <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 space-y-1">
+                {status.warnings.map((warning, index) => (
+                  <p key={index}>{warning}</p>
+                ))}
+              </div>
+            )}
             {status.progress >= 100 && (
               <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg shadow-sm">
                 <div className="flex items-start space-x-3">
@@ -615,11 +1446,12 @@ export default function RedisMigration() {
         {/* Add right after the progress information section, before the closing div of migration-interface */}
         <div className="mt-6">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="performance">Performance</TabsTrigger>
               <TabsTrigger value="logs">Live Changes During Migration</TabsTrigger>
               <TabsTrigger value="errors">Errors</TabsTrigger>
+              <TabsTrigger value="verification">Verification</TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview">
@@ -632,6 +1464,8 @@ export default function RedisMigration() {
                         <p>Total Size: {formatBytes(status.totalSize)}</p>
                         <p>Total Keys: {status.totalKeys}</p>
                         <p>Keys Processed: {status.keysProcessed}</p>
+                        <p>Keys Skipped: {status.keysSkipped || 0}</p>
+                        <p>Conflicting Keys: {status.keysConflicted || 0}</p>
                         <p>Average Speed: {Math.round(status.currentSpeed)} keys/sec</p>
                       </div>
                     </div>
@@ -647,6 +1481,22 @@ export default function RedisMigration() {
                       </div>
                     </div>
                   </div>
+                  {status.databases && status.databases.length > 1 && (
+                    <div className="mt-4">
+                      <h3 className="font-semibold mb-2">
+                        {status.databases.some((db) => db.shard) ? 'Shards' : 'Databases'}
+                      </h3>
+                      <div className="space-y-1 text-sm">
+                        {status.databases.map((db) => (
+                          <p key={db.shard || db.source}>
+                            {db.shard ? `Shard ${db.shard}` : `db${db.source}`} → db{db.target}: {db.processed} / {db.total} keys
+                            {db.skipped > 0 && ` (${db.skipped} skipped)`}
+                            {db.scanComplete && <span className="text-green-600"> - snapshot complete</span>}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -716,6 +1566,25 @@ export default function RedisMigration() {
             <TabsContent value="errors">
               <Card>
                 <CardContent className="pt-6">
+                  {status.conflicts && status.conflicts.length > 0 && (
+                    <div className="mb-4">
+                      <h3 className="font-semibold mb-2">
+                        Conflicts ({status.keysConflicted || status.conflicts.length})
+                      </h3>
+                      <div className="space-y-1 max-h-[200px] overflow-y-auto text-sm">
+                        {status.conflicts.map((conflict, index) => (
+                          <p key={index} className="p-2 bg-yellow-50 border border-yellow-200 rounded-md">
+                            <span className="font-mono">{conflict.targetKey}</span>
+                            {conflict.targetKey !== conflict.key && ` (from ${conflict.key})`}
+                            {` in db${conflict.db}: ${conflict.resolution}`}
+                            <span className="text-xs text-gray-500 ml-2">
+                              {new Date(conflict.detectedAt).toLocaleTimeString()}
+                            </span>
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   <div className="space-y-2 max-h-[300px] overflow-y-auto">
                     {status.errors.length > 0 ? (
                       status.errors.map((error, index) => (
@@ -757,6 +1626,67 @@ export default function RedisMigration() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="verification">
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <p className="text-sm text-gray-600">
+                      Compare type, TTL and content of every source key with the target.
+                    </p>
+                    <Button
+                      onClick={runVerification}
+                      disabled={verifying || !source.host || !target.host}
+                    >
+                      {verifying ? 'Verifying...' : 'Run Verification'}
+                    </Button>
+                  </div>
+
+                  {verificationError && (
+                    <Alert variant="destructive" className="mb-4">
+                      <AlertDescription>{verificationError}</AlertDescription>
+                    </Alert>
+                  )}
+
+                  {verification ? (
+                    <div className="space-y-4 text-sm">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <p>Keys Checked: {verification.keysChecked}</p>
+                        <p>Matched: {verification.matched}</p>
+                        <p>Missing: {verification.counts.missing}</p>
+                        <p>Extra: {verification.counts.extra}</p>
+                        <p>Type Mismatches: {verification.counts.typeMismatches}</p>
+                        <p>TTL Mismatches: {verification.counts.ttlMismatches}</p>
+                        <p>Value Mismatches: {verification.counts.valueMismatches}</p>
+                        <p>Finished: {new Date(verification.finishedAt).toLocaleTimeString()}</p>
+                      </div>
+
+                      <div className="space-y-1 max-h-[300px] overflow-y-auto font-mono text-xs">
+                        {verification.missing.map((key) => (
+                          <p key={`missing-${key}`}>missing - {key}</p>
+                        ))}
+                        {verification.extra.map((key) => (
+                          <p key={`extra-${key}`}>extra - {key}</p>
+                        ))}
+                        {verification.typeMismatches.map(({ key, sourceType, targetType }) => (
+                          <p key={`type-${key}`}>type - {key} ({sourceType} → {targetType})</p>
+                        ))}
+                        {verification.ttlMismatches.map(({ key, sourceTtl, targetTtl }) => (
+                          <p key={`ttl-${key}`}>ttl - {key} ({sourceTtl}ms → {targetTtl}ms)</p>
+                        ))}
+                        {verification.valueMismatches.map(({ key, type }) => (
+                          <p key={`value-${key}`}>value - {key} ({type})</p>
+                        ))}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="text-center text-gray-500 py-8">
+                      No verification has been run yet
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -772,7 +1702,8 @@ export default function RedisMigration() {
                 1. Enter your source Redis instance details (host, port, password if required)<br />
                 2. Enter your target Redis instance details<br />
                 3. Enable TLS if your Redis instances require secure connections<br />
-                4. Click the &quot;Start Migration&quot; button to begin the process
+                4. Click &quot;Plan Migration&quot; to run a dry run and review the keyspace estimate<br />
+                5. Click the &quot;Start Migration&quot; button to begin the process
               </p>
             </AccordionContent>
           </AccordionItem>
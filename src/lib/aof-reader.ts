@@ -0,0 +1,163 @@
+import { promises as fs } from 'fs';
+import { basename, dirname, join } from 'path';
+import { RdbFileReader, TruncatedFileError } from './rdb-file-reader';
+
+export interface AofReplayOptions {
+  // An AOF file, a Redis 7 manifest or the appendonlydir holding one
+  path: string;
+  // Commands starting before this byte offset are skipped; offsets run across
+  // the files of a manifest in order, as reported when a replay ends
+  startOffset?: number;
+  // Unix time in ms; replay stops at the first #TS annotation after it
+  stopAt?: number;
+}
+
+export interface AofFile {
+  path: string;
+  size: number;
+}
+
+export interface AofHandler {
+  // `offset` is where the command starts in the file; returning false stops
+  onCommand(args: Buffer[], offset: number): Promise<boolean | void> | boolean | void;
+  // Unix time in seconds from a #TS annotation; returning false stops
+  onTimestamp?(seconds: number): boolean | void;
+}
+
+export type AofReadResult = 'end' | 'stopped' | 'truncated';
+
+const RDB_MAGIC = 'REDIS';
+
+/**
+ * Lists the files to replay, in order. A Redis 7 manifest names a base file,
+ * RDB or AOF, followed by incremental AOF files by sequence number; history
+ * files left from earlier rewrites are not part of the dataset.
+ */
+export async function resolveAofFiles(path: string): Promise<AofFile[]> {
+  let manifestPath = path;
+  if ((await fs.stat(path)).isDirectory()) {
+    const manifests = (await fs.readdir(path)).filter((name) => name.endsWith('.manifest'));
+    if (manifests.length !== 1) {
+      throw new Error(`Expected one AOF manifest in ${path}, found ${manifests.length}`);
+    }
+    manifestPath = join(path, manifests[0]);
+  } else if (!path.endsWith('.manifest')) {
+    return [{ path, size: (await fs.stat(path)).size }];
+  }
+
+  const entries = parseAofManifest(await fs.readFile(manifestPath, 'utf8'));
+  const ordered = [
+    ...entries.filter((entry) => entry.type === 'b'),
+    ...entries.filter((entry) => entry.type === 'i').sort((a, b) => a.seq - b.seq),
+  ];
+  if (ordered.length === 0) {
+    throw new Error(`The AOF manifest ${manifestPath} lists no files`);
+  }
+
+  return Promise.all(ordered.map(async (entry) => {
+    // Redis names the files of a manifest relative to its own directory
+    if (basename(entry.file) !== entry.file) {
+      throw new Error(`The AOF manifest ${manifestPath} names a file outside its directory: ${entry.file}`);
+    }
+    const filePath = join(dirname(manifestPath), entry.file);
+    return { path: filePath, size: (await fs.stat(filePath)).size };
+  }));
+}
+
+/**
+ * Parses manifest lines such as `file appendonly.aof.1.base.rdb seq 1 type b`.
+ * File names with special characters are quoted the way redis-cli prints them.
+ */
+export function parseAofManifest(text: string): Array<{ file: string; seq: number; type: string }> {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => {
+      const tokens = (line.match(/"(?:[^"\\]|\\[\s\S])*"|\S+/g) || []).map(unquote);
+      const fields: Record<string, string> = {};
+      for (let i = 0; i + 1 < tokens.length; i += 2) {
+        fields[tokens[i]] = tokens[i + 1];
+      }
+      if (!fields.file || !fields.type) {
+        throw new Error(`Invalid AOF manifest line: ${line}`);
+      }
+      return { file: fields.file, seq: Number(fields.seq) || 0, type: fields.type };
+    });
+}
+
+function unquote(token: string): string {
+  if (!token.startsWith('"')) {
+    return token;
+  }
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', a: '\x07', b: '\b' };
+  return token.slice(1, -1).replace(/\\(x[0-9a-fA-F]{2}|[\s\S])/g, (_, escape: string) => (
+    escape.length === 3 ? String.fromCharCode(parseInt(escape.slice(1), 16)) : escapes[escape] ?? escape
+  ));
+}
+
+/**
+ * Whether the reader is at an RDB, either a manifest's base file or the
+ * preamble older AOF rewrites put in front of the commands.
+ */
+export async function startsWithRdb(reader: RdbFileReader): Promise<boolean> {
+  if (reader.size - reader.position < RDB_MAGIC.length) {
+    return false;
+  }
+  return (await reader.peek(RDB_MAGIC.length)).toString('latin1') === RDB_MAGIC;
+}
+
+/**
+ * Reads the RESP commands of an AOF file up to its end, reporting #TS
+ * annotations along the way. A command cut off by the end of the file, as
+ * left by a crash, ends the read with 'truncated' instead of an error.
+ */
+export async function readAofCommands(reader: RdbFileReader, handler: AofHandler): Promise<AofReadResult> {
+  while (!reader.atEnd()) {
+    const offset = reader.position;
+    let args: Buffer[];
+    try {
+      const header = await reader.readLine();
+      if (header === '') {
+        continue;
+      }
+      if (header.startsWith('#')) {
+        const match = /^#TS:(\d+)/.exec(header);
+        if (match && handler.onTimestamp?.(Number(match[1])) === false) {
+          return 'stopped';
+        }
+        continue;
+      }
+      args = [];
+      const count = parseRespLength(header, '*', offset);
+      for (let i = 0; i < count; i++) {
+        const bulkOffset = reader.position;
+        args.push(await reader.read(parseRespLength(await reader.readLine(), '$', bulkOffset)));
+        await reader.read(2); // CRLF
+      }
+    } catch (error) {
+      if (error instanceof TruncatedFileError) {
+        return 'truncated';
+      }
+      throw error;
+    }
+
+    if (args.length > 0 && await handler.onCommand(args, offset) === false) {
+      return 'stopped';
+    }
+  }
+  return 'end';
+}
+
+/**
+ * Length from a `*<count>` or `$<length>` header line. Null arrays and bulks
+ * (-1) never appear in an AOF, so they are rejected like any other bad line.
+ */
+function parseRespLength(line: string, prefix: '*' | '$', offset: number): number {
+  const digits = line.slice(1);
+  const length = Number(digits);
+  if (!line.startsWith(prefix) || digits === '' || !Number.isInteger(length) || length < 0) {
+    throw new Error(`Unexpected data at byte ${offset} of the AOF: ${line.slice(0, 64)}`);
+  }
+  return length;
+}
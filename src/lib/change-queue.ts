@@ -0,0 +1,127 @@
+import { KeyspaceAction } from './keyspace-events';
+
+export type ChangeAction = Exclude<KeyspaceAction, 'ignore'>;
+
+interface QueuedChanges<T> {
+  change: T;
+  actions: ChangeAction[];
+  // Callers of push() waiting for these changes to be applied
+  waiters: Array<() => void>;
+}
+
+const DEFAULT_CONCURRENCY = 100;
+
+/**
+ * Applies real-time changes to the target in the order the source made them
+ * for each key, with at most `concurrency` keys being applied at once.
+ *
+ * Changes to a key that arrive while it is being applied wait behind it and
+ * are merged: a copy or delete replaces everything queued before it, since
+ * both act on the key's latest state, and an expiry or stream append is
+ * dropped when a queued copy or an identical action already covers it. A
+ * burst of writes to a hot key thus costs one copy in flight and one waiting.
+ * The merged change itself comes from `merge`, by default the latest one.
+ */
+export class KeyChangeQueue<T> {
+  // Changes waiting for their key, by key id
+  private pending = new Map<string, QueuedChanges<T>>();
+  // Key ids with pending changes and nothing in flight, oldest first
+  private ready: string[] = [];
+  private active = new Set<string>();
+
+  /**
+   * `apply` handles its own errors; a rejection only moves on to the key's
+   * next change. `merge` combines a queued change with a newer one of the
+   * same key.
+   */
+  constructor(
+    private apply: (change: T, action: ChangeAction) => Promise<void>,
+    private concurrency = DEFAULT_CONCURRENCY,
+    private merge: (queued: T, change: T) => T = (_queued, change) => change
+  ) {}
+
+  /**
+   * Changes queued or being applied.
+   */
+  get size(): number {
+    return this.pending.size + this.active.size;
+  }
+
+  /**
+   * Queues a change behind any other change of the same key. Resolves once
+   * it, or the change it was merged into, has been applied or dropped by
+   * clear().
+   */
+  push(id: string, change: T, action: ChangeAction): Promise<void> {
+    return new Promise((resolve) => {
+      const queued = this.pending.get(id);
+      if (queued) {
+        queued.change = this.merge(queued.change, change);
+        queued.actions = mergeAction(queued.actions, action);
+        queued.waiters.push(resolve);
+        return;
+      }
+
+      this.pending.set(id, { change, actions: [action], waiters: [resolve] });
+      if (!this.active.has(id)) {
+        this.ready.push(id);
+        this.drain();
+      }
+    });
+  }
+
+  /**
+   * Drops every change not yet started; changes in flight still finish.
+   */
+  clear(): void {
+    const dropped = Array.from(this.pending.values());
+    this.pending.clear();
+    this.ready = [];
+    dropped.forEach((queued) => queued.waiters.forEach((resolve) => resolve()));
+  }
+
+  private drain(): void {
+    while (this.active.size < this.concurrency && this.ready.length > 0) {
+      const id = this.ready.shift()!;
+      const queued = this.pending.get(id);
+      if (!queued) {
+        continue;
+      }
+      this.pending.delete(id);
+      this.active.add(id);
+      this.run(id, queued);
+    }
+  }
+
+  private async run(id: string, queued: QueuedChanges<T>): Promise<void> {
+    for (const action of queued.actions) {
+      await this.apply(queued.change, action).catch(() => undefined);
+    }
+
+    this.active.delete(id);
+    if (this.pending.has(id)) {
+      this.ready.push(id);
+    }
+    this.drain();
+    queued.waiters.forEach((resolve) => resolve());
+  }
+}
+
+/**
+ * Merge for changes that may be reconciliation repairs: the merged change is
+ * only a repair if both were, so a real-time change merged into a queued
+ * repair is still counted and reported as one.
+ */
+export function mergeRepairs<T extends { repair?: boolean }>(queued: T, change: T): T {
+  return { ...change, repair: !!queued.repair && !!change.repair };
+}
+
+function mergeAction(queued: ChangeAction[], action: ChangeAction): ChangeAction[] {
+  if (action === 'copy' || action === 'delete') {
+    return [action];
+  }
+  if (queued[0] === 'copy' || queued.indexOf(action) !== -1) {
+    return queued;
+  }
+  return [...queued, action];
+}
@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DatabaseMapping, DatabaseProgress, MigratorOptions, RedisConfig } from './redis-migrator';
+
+export interface MigrationCheckpoint {
+  migrationId: string;
+  status: 'running' | 'completed' | 'stopped' | 'failed';
+  source: RedisConfig;
+  target: RedisConfig;
+  options: MigratorOptions;
+  databases: Array<{
+    mapping: DatabaseMapping;
+    scanCursor: string;
+    progress: DatabaseProgress;
+  }>;
+  stats: {
+    processed: number;
+    skipped: number;
+    totalSize: number;
+  };
+  updatedAt: string;          // ISO string format: "2024-03-14T12:34:56.789Z"
+}
+
+// Credentials left out of checkpoints; resuming asks for them again
+export interface ConnectionSecrets {
+  username?: string;
+  password?: string;
+  sentinelPassword?: string;
+  tlsKey?: string;             // PEM private key of the TLS client certificate
+}
+
+// Checkpoints hold connection details and key names, keep them out of the web
+// root and readable by the server user only.
+const CHECKPOINT_DIR = process.env.MIGRATION_CHECKPOINT_DIR
+  || path.join(process.cwd(), '.migration-checkpoints');
+
+function checkpointPath(migrationId: string): string {
+  if (!/^[\w-]+$/.test(migrationId)) {
+    throw new Error(`Invalid migration id: ${migrationId}`);
+  }
+  return path.join(CHECKPOINT_DIR, `${migrationId}.json`);
+}
+
+/**
+ * A connection config without its ACL user, passwords and TLS private key.
+ */
+export function withoutSecrets(config: RedisConfig): RedisConfig {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { username, password, sentinelPassword, ...rest } = config;
+  return {
+    ...rest,
+    tlsOptions: config.tlsOptions ? { ...config.tlsOptions, key: undefined } : undefined,
+  };
+}
+
+/**
+ * Puts the credentials given on resume back into a checkpointed config.
+ */
+export function withSecrets(config: RedisConfig, secrets: ConnectionSecrets = {}): RedisConfig {
+  return {
+    ...config,
+    username: secrets.username || undefined,
+    password: secrets.password,
+    sentinelPassword: secrets.sentinelPassword || undefined,
+    tlsOptions: config.tlsOptions ? { ...config.tlsOptions, key: secrets.tlsKey || undefined } : undefined,
+  };
+}
+
+export async function saveCheckpoint(checkpoint: MigrationCheckpoint): Promise<void> {
+  const file = checkpointPath(checkpoint.migrationId);
+  const tmpFile = `${file}.tmp`;
+  const stored: MigrationCheckpoint = {
+    ...checkpoint,
+    source: withoutSecrets(checkpoint.source),
+    target: withoutSecrets(checkpoint.target),
+  };
+
+  await fs.mkdir(CHECKPOINT_DIR, { recursive: true, mode: 0o700 });
+  // Write then rename so a crash mid-write never leaves a truncated checkpoint
+  await fs.writeFile(tmpFile, JSON.stringify(stored, null, 2), { mode: 0o600 });
+  await fs.rename(tmpFile, file);
+}
+
+export async function loadCheckpoint(migrationId: string): Promise<MigrationCheckpoint | null> {
+  try {
+    const data = await fs.readFile(checkpointPath(migrationId), 'utf8');
+    return JSON.parse(data) as MigrationCheckpoint;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Human-readable notes on what resuming from a checkpoint does and does not
+ * guarantee, returned to the caller of the resume API.
+ */
+export function describeResume(checkpoint: MigrationCheckpoint): string[] {
+  const notes = checkpoint.databases.map(({ mapping, scanCursor, progress }) => progress.scanComplete
+    ? `db${mapping.source} → db${mapping.target}: snapshot already complete, only real-time sync resumes`
+    : `db${mapping.source} → db${mapping.target}: resuming SCAN at cursor ${scanCursor} (${progress.processed} of ${progress.total} keys processed)`);
+
+  notes.push(
+    'SCAN only guarantees that keys present for the whole iteration are returned at least once, '
+      + 'so keys around the checkpoint or moved by a rehash may be copied again.',
+    `Changes made on the source since ${checkpoint.updatedAt} to keys the scan had already visited `
+      + 'were not captured while the migration was down and will not be re-copied.'
+  );
+
+  if (checkpoint.options.onConflict && checkpoint.options.onConflict !== 'overwrite') {
+    notes.push(`Keys copied before the checkpoint are not remembered as written by this migration, `
+      + `so the '${checkpoint.options.onConflict}' conflict policy applies to them again.`);
+  }
+
+  return notes;
+}
@@ -0,0 +1,128 @@
+import Redis from 'ioredis';
+
+export interface ClusterShard {
+  id: string;                   // Node ID of the master
+  host: string;
+  port: number;
+  slots: Array<[number, number]>;
+}
+
+/**
+ * Lists the masters of the cluster `seed` belongs to, using CLUSTER SHARDS
+ * (Redis 7+) and falling back to CLUSTER NODES on older servers. Masters
+ * without slots or marked as failed are left out. Nodes that announce no
+ * address are reached through the seed's host.
+ */
+export async function discoverClusterMasters(seed: Redis, tls = false): Promise<ClusterShard[]> {
+  let masters: ClusterShard[];
+  try {
+    masters = parseClusterShards(await seed.call('CLUSTER', 'SHARDS') as unknown[], tls);
+  } catch {
+    masters = parseClusterNodes(String(await seed.call('CLUSTER', 'NODES')));
+  }
+
+  const seedHost = seed.options.host || 'localhost';
+  return masters
+    .filter((master) => master.slots.length > 0)
+    .map((master) => ({ ...master, host: master.host || seedHost }));
+}
+
+function parseClusterShards(reply: unknown[], tls: boolean): ClusterShard[] {
+  const masters: ClusterShard[] = [];
+
+  for (const rawShard of reply) {
+    const shard = toRecord(rawShard as unknown[]);
+    const slotBounds = (shard.slots as Array<number | string>).map(Number);
+    const slots: Array<[number, number]> = [];
+    for (let i = 0; i < slotBounds.length; i += 2) {
+      slots.push([slotBounds[i], slotBounds[i + 1]]);
+    }
+
+    for (const rawNode of shard.nodes as unknown[][]) {
+      const node = toRecord(rawNode);
+      if (node.role !== 'master' || node.health === 'fail') {
+        continue;
+      }
+      const endpoint = String(node.endpoint ?? '');
+      masters.push({
+        id: String(node.id),
+        host: endpoint && endpoint !== '?' ? endpoint : String(node.ip ?? ''),
+        port: Number(tls && node['tls-port'] ? node['tls-port'] : node.port),
+        slots,
+      });
+    }
+  }
+
+  return masters;
+}
+
+/**
+ * Parses the CLUSTER NODES text format:
+ * `<id> <ip:port@cport[,hostname]> <flags> <master> <ping> <pong> <epoch> <link> <slot>...`
+ */
+function parseClusterNodes(reply: string): ClusterShard[] {
+  return reply
+    .split('\n')
+    .map((line) => line.trim().split(' '))
+    .filter((fields) => fields.length >= 8)
+    .filter(([, , flags]) => {
+      const flagList = flags.split(',');
+      return flagList.includes('master') && !flagList.includes('fail') && !flagList.includes('noaddr');
+    })
+    .map(([id, address, , , , , , , ...slotFields]) => {
+      const [hostPort] = address.split('@');
+      const separator = hostPort.lastIndexOf(':');
+      const slots = slotFields
+        // Importing/migrating markers look like [1234->-nodeid]
+        .filter((field) => !field.startsWith('['))
+        .map((field): [number, number] => {
+          const [start, end] = field.split('-').map(Number);
+          return [start, end ?? start];
+        });
+
+      return {
+        id,
+        host: hostPort.slice(0, separator),
+        port: Number(hostPort.slice(separator + 1)),
+        slots,
+      };
+    });
+}
+
+function toRecord(flat: unknown[]): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (let i = 0; i < flat.length; i += 2) {
+    record[String(flat[i])] = flat[i + 1];
+  }
+  return record;
+}
+
+/**
+ * The part of a key Redis Cluster hashes when the key contains a non-empty
+ * `{...}` section, or null when the whole key is hashed.
+ */
+export function hashTag(key: string): string | null;
+export function hashTag(key: Buffer): Buffer | null;
+export function hashTag(key: string | Buffer): string | Buffer | null {
+  const start = key.indexOf('{');
+  if (start === -1) {
+    return null;
+  }
+  const end = key.indexOf('}', start + 1);
+  return end > start + 1 ? key.slice(start + 1, end) : null;
+}
+
+/**
+ * Hash slot of a key: CRC16 (XMODEM) of its hash tag or whole name, mod 16384.
+ */
+export function keySlot(key: string | Buffer): number {
+  const bytes = typeof key === 'string' ? Buffer.from(hashTag(key) ?? key) : hashTag(key) ?? key;
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc % 16384;
+}
@@ -0,0 +1,124 @@
+import { RedisKey } from 'ioredis';
+import { RedisClient } from './redis-clients';
+
+/**
+ * Reads a stream in pages of `pageSize` entries from `start` on. With
+ * `binary`, field names and values come as Buffers.
+ */
+export async function readStreamPages(
+  redis: RedisClient,
+  key: RedisKey,
+  start: string,
+  pageSize: number,
+  onPage: (page: Array<[string, string[]]>) => Promise<void>
+): Promise<void>;
+export async function readStreamPages(
+  redis: RedisClient,
+  key: RedisKey,
+  start: string,
+  pageSize: number,
+  onPage: (page: Array<[Buffer, Buffer[]]>) => Promise<void>,
+  binary: true
+): Promise<void>;
+export async function readStreamPages(
+  redis: RedisClient,
+  key: RedisKey,
+  start: string,
+  pageSize: number,
+  onPage: ((page: Array<[string, string[]]>) => Promise<void>) | ((page: Array<[Buffer, Buffer[]]>) => Promise<void>),
+  binary = false
+): Promise<void> {
+  const emit = onPage as (page: Array<[string | Buffer, Array<string | Buffer>]>) => Promise<void>;
+  while (true) {
+    const page: Array<[string | Buffer, Array<string | Buffer>]> = binary
+      ? await redis.xrangeBuffer(key, start, '+', 'COUNT', pageSize)
+      : await redis.xrange(key, start, '+', 'COUNT', pageSize);
+    if (page.length > 0) {
+      await emit(page);
+    }
+    if (page.length < pageSize) {
+      return;
+    }
+    start = `(${page[page.length - 1][0].toString()}`;
+  }
+}
+
+/**
+ * Reads a hash, set, sorted set or list in chunks of roughly `chunkSize`
+ * elements, so its size never has to fit in memory at once. Hash chunks are
+ * flat field/value lists, sorted set chunks flat member/score lists. SCAN
+ * may return an element twice, so consumers must tolerate repeats; a list
+ * modified mid-read may be read inconsistently. With `binary`, elements
+ * come as Buffers.
+ */
+export async function readCollectionChunks(
+  redis: RedisClient,
+  key: RedisKey,
+  keyType: string,
+  chunkSize: number,
+  onChunk: (values: string[]) => Promise<void>
+): Promise<void>;
+export async function readCollectionChunks(
+  redis: RedisClient,
+  key: RedisKey,
+  keyType: string,
+  chunkSize: number,
+  onChunk: (values: Buffer[]) => Promise<void>,
+  binary: true
+): Promise<void>;
+export async function readCollectionChunks(
+  redis: RedisClient,
+  key: RedisKey,
+  keyType: string,
+  chunkSize: number,
+  onChunk: ((values: string[]) => Promise<void>) | ((values: Buffer[]) => Promise<void>),
+  binary = false
+): Promise<void> {
+  const emit = onChunk as (values: Array<string | Buffer>) => Promise<void>;
+  if (keyType === 'list') {
+    for (let start = 0; ; start += chunkSize) {
+      const items: Array<string | Buffer> = binary
+        ? await redis.lrangeBuffer(key, start, start + chunkSize - 1)
+        : await redis.lrange(key, start, start + chunkSize - 1);
+      if (items.length > 0) {
+        await emit(items);
+      }
+      if (items.length < chunkSize) {
+        return;
+      }
+    }
+  }
+
+  let cursor = '0';
+  do {
+    const [next, values]: [string | Buffer, Array<string | Buffer>] = binary
+      ? keyType === 'hash'
+        ? await redis.hscanBuffer(key, cursor, 'COUNT', chunkSize)
+        : keyType === 'set'
+          ? await redis.sscanBuffer(key, cursor, 'COUNT', chunkSize)
+          : await redis.zscanBuffer(key, cursor, 'COUNT', chunkSize)
+      : keyType === 'hash'
+        ? await redis.hscan(key, cursor, 'COUNT', chunkSize)
+        : keyType === 'set'
+          ? await redis.sscan(key, cursor, 'COUNT', chunkSize)
+          : await redis.zscan(key, cursor, 'COUNT', chunkSize);
+    cursor = next.toString();
+    if (values.length > 0) {
+      await emit(values);
+    }
+  } while (cursor !== '0');
+}
+
+/**
+ * Element count of a collection key, 0 for strings and other types.
+ */
+export async function collectionLength(redis: RedisClient, key: RedisKey, keyType: string): Promise<number> {
+  switch (keyType) {
+    case 'hash': return redis.hlen(key);
+    case 'set': return redis.scard(key);
+    case 'zset': return redis.zcard(key);
+    case 'list': return redis.llen(key);
+    case 'stream': return redis.xlen(key);
+    default: return 0;
+  }
+}
@@ -0,0 +1,78 @@
+import Redis, { Cluster } from 'ioredis';
+
+// What to do when a key the migration is about to write already exists on
+// the target and was not written by this migration:
+// 'overwrite'  replaces the target key with the source key
+// 'skip'       keeps the target key and leaves it untouched by real-time sync
+// 'fail'       aborts the snapshot
+// 'newer-wins' compares the timestamp field of both keys, see readConflictTimestamp()
+export type ConflictPolicy = 'overwrite' | 'skip' | 'fail' | 'newer-wins';
+
+export type ConflictResolution = 'overwritten' | 'skipped' | 'failed' | 'source-newer' | 'target-newer';
+
+export interface ConflictRecord {
+  key: string;
+  targetKey: string;
+  db: number;
+  policy: ConflictPolicy;
+  resolution: ConflictResolution;
+  sourceTimestamp?: number | null;
+  targetTimestamp?: number | null;
+  detectedAt: string;          // ISO string format: "2024-03-14T12:34:56.789Z"
+}
+
+export class ConflictError extends Error {
+  constructor(public readonly key: string, public readonly targetKey: string) {
+    super(`Key ${targetKey} already exists on the target (onConflict: fail)`);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * True when the resolution leaves the existing target key in place.
+ */
+export function keepsTargetKey(resolution: ConflictResolution | null | undefined): boolean {
+  return resolution === 'skipped' || resolution === 'target-newer';
+}
+
+/**
+ * Reads the timestamp `newer-wins` compares: a hash field, or a top-level
+ * property of a string holding a JSON object. Values may be numbers (any
+ * unit, as long as both sides agree) or date strings. Returns null when the
+ * key has no readable timestamp.
+ */
+export async function readConflictTimestamp(redis: Redis | Cluster, key: string, field: string): Promise<number | null> {
+  const type = await redis.type(key);
+
+  if (type === 'hash') {
+    return parseTimestamp(await redis.hget(key, field));
+  }
+
+  if (type === 'string') {
+    const value = await redis.get(key);
+    try {
+      const parsed = value ? JSON.parse(value) : null;
+      return parsed && typeof parsed === 'object' ? parseTimestamp(parsed[field]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string' || value === '') {
+    return null;
+  }
+
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : date;
+}
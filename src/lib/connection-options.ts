@@ -0,0 +1,35 @@
+import { RedisOptions } from 'ioredis';
+import { ConnectionOptions } from 'tls';
+import { RedisConfig } from './redis-migrator';
+
+/**
+ * Transport and authentication options shared by every connection to an
+ * instance: TCP or Unix socket, ACL user, password and TLS.
+ */
+export function connectionOptions(config: RedisConfig): RedisOptions {
+  return {
+    ...(config.path ? { path: config.path } : { host: config.host, port: config.port }),
+    username: config.username || undefined,
+    password: config.password,
+    tls: toTlsOptions(config),
+  };
+}
+
+/**
+ * Node TLS options, or undefined when TLS is off. Certificates and keys are
+ * PEM contents rather than file paths, as they are uploaded through the UI.
+ */
+export function toTlsOptions(config: RedisConfig): ConnectionOptions | undefined {
+  if (!config.tls) {
+    return undefined;
+  }
+
+  const { ca, cert, key, servername, rejectUnauthorized } = config.tlsOptions || {};
+  return {
+    ca: ca || undefined,
+    cert: cert || undefined,
+    key: key || undefined,
+    servername: servername || undefined,
+    rejectUnauthorized: rejectUnauthorized ?? true,
+  };
+}
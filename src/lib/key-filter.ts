@@ -0,0 +1,118 @@
+export interface KeyFilterOptions {
+  include?: string[];       // Redis glob patterns, e.g. "session:*"
+  exclude?: string[];
+  includeRegex?: string[];  // JavaScript regular expressions
+  excludeRegex?: string[];
+}
+
+/**
+ * Decides which keys take part in a migration. A key is migrated when it
+ * matches at least one include rule (or there are none) and no exclude rule.
+ */
+export class KeyFilter {
+  private include: RegExp[];
+  private exclude: RegExp[];
+
+  /**
+   * Pattern that can be pushed down to SCAN ... MATCH, only available when
+   * the includes consist of a single glob.
+   */
+  public readonly scanPattern?: string;
+
+  constructor(options: KeyFilterOptions) {
+    const include = options.include || [];
+    const includeRegex = options.includeRegex || [];
+
+    this.include = [
+      ...include.map(globToRegExp),
+      ...includeRegex.map((pattern) => new RegExp(pattern)),
+    ];
+    this.exclude = [
+      ...(options.exclude || []).map(globToRegExp),
+      ...(options.excludeRegex || []).map((pattern) => new RegExp(pattern)),
+    ];
+
+    if (include.length === 1 && includeRegex.length === 0) {
+      this.scanPattern = include[0];
+    }
+  }
+
+  /**
+   * Returns null when the options contain no rules, so callers can skip
+   * filtering entirely.
+   */
+  static create(options?: KeyFilterOptions): KeyFilter | null {
+    const filter = new KeyFilter(options || {});
+    return filter.include.length > 0 || filter.exclude.length > 0 ? filter : null;
+  }
+
+  matches(key: string): boolean {
+    if (this.include.length > 0 && !this.include.some((pattern) => pattern.test(key))) {
+      return false;
+    }
+    return !this.exclude.some((pattern) => pattern.test(key));
+  }
+}
+
+/**
+ * Translates a Redis glob (`*`, `?`, `[abc]`, `[^a-z]`, `\x`) into an
+ * anchored regular expression with the same semantics as KEYS/SCAN MATCH.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    switch (char) {
+      case '*':
+        pattern += '[\\s\\S]*';
+        break;
+      case '?':
+        pattern += '[\\s\\S]';
+        break;
+      case '\\':
+        i++;
+        pattern += i < glob.length ? escapeRegExp(glob[i]) : '\\\\';
+        break;
+      case '[': {
+        const end = glob.indexOf(']', i + 2);
+        if (end === -1) {
+          pattern += '\\[';
+          break;
+        }
+
+        let body = glob.slice(i + 1, end);
+        let negate = '';
+        if (body.startsWith('^')) {
+          negate = '^';
+          body = body.slice(1);
+        }
+
+        let characterClass = '';
+        for (let j = 0; j < body.length; j++) {
+          if (body[j] === '\\' && j + 1 < body.length) {
+            j++;
+            characterClass += escapeRegExp(body[j]);
+          } else if (body[j] === '-') {
+            characterClass += '-';
+          } else {
+            characterClass += escapeRegExp(body[j]);
+          }
+        }
+
+        pattern += `[${negate}${characterClass}]`;
+        i = end;
+        break;
+      }
+      default:
+        pattern += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+}
@@ -0,0 +1,78 @@
+import { globToRegExp } from './key-filter';
+
+export type KeyMappingRule =
+  | { type: 'prefix'; from: string; to: string }            // "svcA:" -> "tenant42:svcA:"
+  | { type: 'regex'; pattern: string; replacement: string } // "$1"-style capture references
+  | { type: 'drop'; pattern: string };                      // Redis glob of keys to leave behind
+
+/**
+ * Rewrites source key names into target key names. Rules are tried in order
+ * and the first matching rule wins; keys matching no rule keep their name.
+ */
+export class KeyMapper {
+  private rules: Array<(key: string) => string | null | undefined>;
+  private prefixRules: Array<{ from: string; to: string }>;
+
+  constructor(rules: KeyMappingRule[]) {
+    this.prefixRules = rules
+      .filter((rule): rule is Extract<KeyMappingRule, { type: 'prefix' }> => rule.type === 'prefix')
+      .map(({ from, to }) => ({ from, to }));
+    this.rules = rules.map((rule) => {
+      switch (rule.type) {
+        case 'prefix':
+          return (key: string) => key.startsWith(rule.from)
+            ? rule.to + key.slice(rule.from.length)
+            : undefined;
+        case 'regex': {
+          const pattern = new RegExp(rule.pattern);
+          return (key: string) => pattern.test(key)
+            ? key.replace(pattern, rule.replacement)
+            : undefined;
+        }
+        case 'drop': {
+          const pattern = globToRegExp(rule.pattern);
+          return (key: string) => pattern.test(key) ? null : undefined;
+        }
+        default:
+          throw new Error(`Unknown key mapping rule: ${JSON.stringify(rule)}`);
+      }
+    });
+  }
+
+  /**
+   * Returns null when the options contain no rules, so callers can skip
+   * mapping entirely.
+   */
+  static create(rules?: KeyMappingRule[]): KeyMapper | null {
+    return rules && rules.length > 0 ? new KeyMapper(rules) : null;
+  }
+
+  /**
+   * Source key names that may map to `targetKey`: the name itself and the
+   * names prefix rules would rewrite into it. Regex rules cannot be inverted,
+   * so their keys are not found. Candidates still have to be confirmed with
+   * map(), since an earlier rule may claim them.
+   */
+  sourceCandidates(targetKey: string): string[] {
+    const candidates = [targetKey];
+    for (const { from, to } of this.prefixRules) {
+      if (targetKey.startsWith(to)) {
+        candidates.push(from + targetKey.slice(to.length));
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Returns the target key name, or null when the key is dropped.
+   */
+  map(key: string): string | null {
+    for (const rule of this.rules) {
+      const mapped = rule(key);
+      if (mapped !== undefined) {
+        return mapped;
+      }
+    }
+    return key;
+  }
+}
@@ -0,0 +1,106 @@
+// What real-time sync does on the target when a source key reports a
+// keyspace event
+export type KeyspaceAction =
+  | 'copy'             // Re-copy the whole key from the source
+  | 'stream-append'    // Copy the stream entries added after the target's last one
+  | 'delete'           // Remove the key from the target
+  | 'expire'           // Copy the key's expiry, or its lack of one
+  | 'ignore';          // The event does not change the key
+
+/**
+ * Every keyspace event Redis 7 publishes, by the commands that raise it.
+ * Commands touching several keys raise one event per key: LMOVE raises
+ * lpop/rpop on its source and lpush/rpush on its destination, RENAME
+ * rename_from and rename_to, SMOVE srem and sadd, and so on. Events not
+ * listed here, e.g. from modules, re-copy the key.
+ */
+export const KEYSPACE_EVENT_ACTIONS: Record<string, KeyspaceAction> = {
+  // Generic
+  del: 'delete',                   // DEL, UNLINK, GETDEL, and writes that leave a collection empty
+  rename_from: 'delete',           // RENAME, RENAMENX on the old name
+  rename_to: 'copy',               // RENAME, RENAMENX on the new name
+  move_from: 'delete',             // MOVE in the database the key leaves
+  move_to: 'copy',                 // MOVE in the database the key enters
+  copy_to: 'copy',                 // COPY on the destination
+  restore: 'copy',                 // RESTORE
+  sortstore: 'copy',               // SORT ... STORE
+  expire: 'expire',                // EXPIRE, PEXPIRE, EXPIREAT, PEXPIREAT, SET EX/PX, GETEX
+  persist: 'expire',               // PERSIST, GETEX PERSIST
+  expired: 'delete',               // Expired on access or by the active expire cycle
+  evicted: 'delete',               // Evicted under maxmemory
+  new: 'ignore',                   // Key created; the write's own event follows
+  keymiss: 'ignore',               // Read of a missing key
+
+  // Strings
+  set: 'copy',                     // SET, SETNX, SETEX, PSETEX, GETSET, MSET, MSETNX, BITOP
+  setrange: 'copy',                // SETRANGE
+  incrby: 'copy',                  // INCR, DECR, INCRBY, DECRBY
+  incrbyfloat: 'copy',             // INCRBYFLOAT
+  append: 'copy',                  // APPEND
+  setbit: 'copy',                  // SETBIT, BITFIELD
+  pfadd: 'copy',                   // PFADD, PFMERGE (HyperLogLogs are strings)
+
+  // Lists
+  lpush: 'copy',                   // LPUSH, LPUSHX, and LMOVE/BLMOVE/RPOPLPUSH destinations
+  rpush: 'copy',                   // RPUSH, RPUSHX, and LMOVE/BLMOVE/RPOPLPUSH destinations
+  lpop: 'copy',                    // LPOP, BLPOP, LMPOP, BLMPOP, and LMOVE/BLMOVE sources
+  rpop: 'copy',                    // RPOP, BRPOP, LMPOP, BLMPOP, and LMOVE/BLMOVE/RPOPLPUSH sources
+  linsert: 'copy',                 // LINSERT
+  lset: 'copy',                    // LSET
+  lrem: 'copy',                    // LREM
+  ltrim: 'copy',                   // LTRIM
+
+  // Hashes
+  hset: 'copy',                    // HSET, HSETNX, HMSET
+  hincrby: 'copy',                 // HINCRBY
+  hincrbyfloat: 'copy',            // HINCRBYFLOAT
+  hdel: 'copy',                    // HDEL
+  hexpire: 'copy',                 // HEXPIRE, HPEXPIRE, HEXPIREAT, HPEXPIREAT (7.4)
+  hpersist: 'copy',                // HPERSIST (7.4)
+  hexpired: 'copy',                // Hash fields expired (7.4)
+
+  // Sets
+  sadd: 'copy',                    // SADD, and the SMOVE destination
+  srem: 'copy',                    // SREM, and the SMOVE source
+  spop: 'copy',                    // SPOP
+  sinterstore: 'copy',             // SINTERSTORE
+  sunionstore: 'copy',             // SUNIONSTORE
+  sdiffstore: 'copy',              // SDIFFSTORE
+
+  // Sorted sets
+  zadd: 'copy',                    // ZADD, GEOADD
+  zincr: 'copy',                   // ZINCRBY
+  zrem: 'copy',                    // ZREM
+  zrembyscore: 'copy',             // ZREMRANGEBYSCORE
+  zrembyrank: 'copy',              // ZREMRANGEBYRANK
+  zrembylex: 'copy',               // ZREMRANGEBYLEX
+  zpopmin: 'copy',                 // ZPOPMIN, BZPOPMIN, ZMPOP, BZMPOP
+  zpopmax: 'copy',                 // ZPOPMAX, BZPOPMAX, ZMPOP, BZMPOP
+  zinterstore: 'copy',             // ZINTERSTORE
+  zunionstore: 'copy',             // ZUNIONSTORE
+  zdiffstore: 'copy',              // ZDIFFSTORE
+  zrangestore: 'copy',             // ZRANGESTORE
+  georadiusstore: 'copy',          // GEORADIUS, GEORADIUSBYMEMBER ... STORE/STOREDIST
+  geosearchstore: 'copy',          // GEOSEARCHSTORE
+
+  // Streams
+  xadd: 'stream-append',           // XADD
+  xtrim: 'copy',                   // XTRIM, XADD MAXLEN/MINID
+  xdel: 'copy',                    // XDEL
+  xsetid: 'copy',                  // XSETID
+  'xgroup-create': 'copy',         // XGROUP CREATE
+  'xgroup-createconsumer': 'copy', // XGROUP CREATECONSUMER, XREADGROUP with a new consumer
+  'xgroup-delconsumer': 'copy',    // XGROUP DELCONSUMER
+  'xgroup-destroy': 'copy',        // XGROUP DESTROY
+  'xgroup-setid': 'copy',          // XGROUP SETID
+};
+
+/**
+ * Action for a keyspace event. Unknown events re-copy the key, which is
+ * always correct, if not always the cheapest.
+ */
+export function keyspaceAction(event: string): KeyspaceAction {
+  return Object.prototype.hasOwnProperty.call(KEYSPACE_EVENT_ACTIONS, event)
+    ? KEYSPACE_EVENT_ACTIONS[event]
+    : 'copy';
+}
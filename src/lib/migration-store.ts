@@ -1,4 +1,6 @@
-import { RedisMigrator } from './redis-migrator';
+import { BigKeyProgress, ReconcileStats, RedisMigrator } from './redis-migrator';
+import { RateLimitState } from './rate-limiter';
+import { ConflictRecord } from './conflict-policy';
 
 export let migrator: RedisMigrator | null = null;
 
@@ -6,6 +8,7 @@ export const migrationStatus = {
   isRunning: false,
   progress: 0,
   keysProcessed: 0,
+  keysSkipped: 0,
   totalKeys: 0,
   currentSpeed: 0,
   lastUpdate: new Date(),
@@ -17,6 +20,21 @@ export const migrationStatus = {
   }>,
   recentChanges: [] as Array<{ key: string }>,
   totalSize: 0,
+  databases: [] as Array<{
+    shard?: string;
+    source: number;
+    target: number;
+    processed: number;
+    skipped: number;
+    total: number;
+    scanComplete: boolean;
+  }>,
+  warnings: [] as string[],
+  throttle: null as RateLimitState | null,
+  keysConflicted: 0,
+  conflicts: [] as ConflictRecord[],
+  bigKeys: [] as BigKeyProgress[],
+  reconciliation: null as ReconcileStats | null,
 };
 
 export function setMigrator(instance: RedisMigrator | null) {
@@ -0,0 +1,407 @@
+import Redis, { Cluster } from 'ioredis';
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import { KeyFilter, KeyFilterOptions } from './key-filter';
+import { KeyMapper, KeyMappingRule } from './key-mapper';
+import { DatabaseMapping, RedisConfig } from './redis-migrator';
+import { RedisClient, createRedisClient } from './redis-clients';
+import { RateLimitOptions, RateLimiter } from './rate-limiter';
+import { collectionLength, readCollectionChunks } from './collection-reader';
+
+export interface VerifierOptions {
+  databases?: DatabaseMapping[];
+  keyFilter?: KeyFilterOptions;
+  keyMapping?: KeyMappingRule[];
+  ttlToleranceMs?: number;     // Allowed TTL drift between source and target, default 2000
+  maxReportedKeys?: number;    // Keys listed per category, default 1000
+  rateLimits?: RateLimitOptions; // maxInFlight defaults to 100 keys compared at once
+  bigKeyThreshold?: number;    // Elements above which a collection is compared in chunks, default 10000
+  bigKeyChunkSize?: number;    // Elements read per chunk of such a collection, default 1000
+}
+
+export interface VerificationReport {
+  startedAt: string;
+  finishedAt: string;
+  keysChecked: number;
+  matched: number;
+  counts: {
+    missing: number;
+    extra: number;
+    typeMismatches: number;
+    ttlMismatches: number;
+    valueMismatches: number;
+  };
+  missing: string[];
+  extra: string[];
+  typeMismatches: Array<{ key: string; sourceType: string; targetType: string }>;
+  ttlMismatches: Array<{ key: string; sourceTtl: number; targetTtl: number }>;
+  valueMismatches: Array<{ key: string; type: string }>;
+}
+
+const SCAN_BATCH_SIZE = 1000;
+const DEFAULT_MAX_IN_FLIGHT = 100;
+
+/**
+ * Walks the source keyspace and compares every key's type, TTL and content
+ * with its counterpart on the target, then walks the target for keys the
+ * migration could have written that have no source counterpart.
+ */
+export class MigrationVerifier extends EventEmitter {
+  private sourceConfig: RedisConfig;
+  private targetConfig: RedisConfig;
+  private options: VerifierOptions;
+  private keyFilter: KeyFilter | null;
+  private keyMapper: KeyMapper | null;
+  private rateLimiter: RateLimiter;
+  private report: VerificationReport = createEmptyReport();
+
+  constructor(sourceConfig: RedisConfig, targetConfig: RedisConfig, options: VerifierOptions = {}) {
+    super();
+    this.sourceConfig = sourceConfig;
+    this.targetConfig = targetConfig;
+    this.options = options;
+    this.keyFilter = KeyFilter.create(options.keyFilter);
+    this.keyMapper = KeyMapper.create(options.keyMapping);
+    this.rateLimiter = new RateLimiter({ maxInFlight: DEFAULT_MAX_IN_FLIGHT, ...options.rateLimits });
+  }
+
+  public async run(): Promise<VerificationReport> {
+    this.report = createEmptyReport();
+
+    const mappings = this.options.databases?.length
+      ? this.options.databases
+      : [{ source: this.sourceConfig.db ?? 0, target: this.targetConfig.db ?? 0 }];
+
+    for (const mapping of mappings) {
+      const source = createRedisClient(this.sourceConfig, mapping.source);
+      const target = createRedisClient(this.targetConfig, mapping.target);
+      try {
+        await this.verifySourceKeys(source, target);
+        await this.findExtraKeys(source, target);
+      } finally {
+        // A failed quit must not hide the error that ended the verification
+        await Promise.all([source, target].map((client) => client.quit().catch(() => undefined)));
+      }
+    }
+
+    this.report.finishedAt = new Date().toISOString();
+    return this.report;
+  }
+
+  /**
+   * Compares every source key with the target, at most `maxInFlight` keys
+   * at a time.
+   */
+  private async verifySourceKeys(source: RedisClient, target: RedisClient): Promise<void> {
+    await scanAll(source, this.keyFilter?.scanPattern, async (scanned) => {
+      const keys = scanned.filter((key) => !this.keyFilter || this.keyFilter.matches(key));
+      await Promise.all(keys.map((key) => this.rateLimiter.run(async () => {
+        const targetKey = this.keyMapper ? this.keyMapper.map(key) : key;
+        if (targetKey === null) {
+          return;
+        }
+        await this.compareKey(source, target, key, targetKey);
+      })));
+
+      this.emit('progress', { keysChecked: this.report.keysChecked });
+    });
+  }
+
+  private async compareKey(source: RedisClient, target: RedisClient, key: string, targetKey: string): Promise<void> {
+    const [sourceType, targetType, sourceTtl, targetTtl] = await Promise.all([
+      source.type(key),
+      target.type(targetKey),
+      source.pttl(key),
+      target.pttl(targetKey),
+    ]);
+
+    // Deleted or expired on the source while we were looking at it
+    if (sourceType === 'none') {
+      return;
+    }
+
+    this.report.keysChecked++;
+
+    if (targetType === 'none') {
+      this.record('missing', key);
+      return;
+    }
+
+    if (sourceType !== targetType) {
+      this.record('typeMismatches', { key, sourceType, targetType });
+      return;
+    }
+
+    const tolerance = this.options.ttlToleranceMs ?? 2000;
+    const ttlDiffers = (sourceTtl > 0) !== (targetTtl > 0)
+      || (sourceTtl > 0 && Math.abs(sourceTtl - targetTtl) > tolerance);
+    if (ttlDiffers) {
+      this.record('ttlMismatches', { key, sourceTtl, targetTtl });
+      return;
+    }
+
+    if (!await this.valuesMatch(source, target, key, targetKey, sourceType)) {
+      this.record('valueMismatches', { key, type: sourceType });
+      return;
+    }
+
+    this.report.matched++;
+  }
+
+  /**
+   * Compares the values of two keys of the same type. Collections above the
+   * big-key threshold are compared chunk by chunk instead of through whole
+   * value digests; streams are digested page by page anyway.
+   */
+  private async valuesMatch(
+    source: RedisClient,
+    target: RedisClient,
+    key: string,
+    targetKey: string,
+    keyType: string
+  ): Promise<boolean> {
+    const length = keyType === 'stream' ? 0 : await collectionLength(source, key, keyType);
+    if (length > (this.options.bigKeyThreshold ?? 10000)) {
+      return collectionsMatch(source, target, key, targetKey, keyType, this.options.bigKeyChunkSize ?? 1000);
+    }
+
+    const [sourceDigest, targetDigest] = await Promise.all([
+      computeDigest(source, key, keyType),
+      computeDigest(target, targetKey, keyType),
+    ]);
+    return sourceDigest === targetDigest;
+  }
+
+  /**
+   * Reports target keys the filter and mapping could have produced whose
+   * source key does not exist. Target keys outside the mapping's range belong
+   * to something else and are not checked. Each scanned batch is settled on
+   * its own, so memory does not grow with the keyspace.
+   */
+  private async findExtraKeys(source: RedisClient, target: RedisClient): Promise<void> {
+    const pattern = this.keyMapper ? undefined : this.keyFilter?.scanPattern;
+
+    await scanAll(target, pattern, async (scanned) => {
+      const checks = scanned
+        .map((targetKey) => ({ targetKey, sourceKeys: this.sourceKeysFor(targetKey) }))
+        .filter(({ sourceKeys }) => sourceKeys.length > 0);
+
+      // One EXISTS per key, since a cluster source cannot pipeline across slots
+      const found = await Promise.all(checks.map(async ({ sourceKeys }) => {
+        for (const key of sourceKeys) {
+          if (await source.exists(key).catch(() => 1)) {
+            return true;
+          }
+        }
+        return false;
+      }));
+      checks.forEach(({ targetKey }, i) => {
+        if (!found[i]) {
+          this.record('extra', targetKey);
+        }
+      });
+    });
+  }
+
+  /**
+   * Source keys the migration would have copied to `targetKey`; empty when
+   * no included source key maps to it.
+   */
+  private sourceKeysFor(targetKey: string): string[] {
+    const candidates = this.keyMapper ? this.keyMapper.sourceCandidates(targetKey) : [targetKey];
+    return candidates.filter((key) => (!this.keyFilter || this.keyFilter.matches(key))
+      && (!this.keyMapper || this.keyMapper.map(key) === targetKey));
+  }
+
+  private record<K extends keyof VerificationReport['counts']>(
+    category: K,
+    entry: VerificationReport[K] extends Array<infer T> ? T : never
+  ): void {
+    this.report.counts[category]++;
+    const list = this.report[category] as unknown[];
+    if (list.length < (this.options.maxReportedKeys ?? 1000)) {
+      list.push(entry);
+    }
+  }
+}
+
+/**
+ * Hashes a key's content into a digest that is independent of the internal
+ * encoding, so equal values on two instances produce equal digests. Returns
+ * null for keys that do not exist.
+ */
+export async function computeDigest(redis: Redis | Cluster, key: string, type: string): Promise<string | null> {
+  const hash = createHash('sha1');
+  const add = (value: Buffer | string) => {
+    const buffer = Buffer.isBuffer(value) ? value : Buffer.from(value);
+    hash.update(`${buffer.length}:`);
+    hash.update(buffer);
+  };
+
+  switch (type) {
+    case 'string': {
+      const value = await redis.getBuffer(key);
+      if (value === null) return null;
+      add(value);
+      break;
+    }
+    case 'hash': {
+      const data = await redis.hgetallBuffer(key);
+      Object.keys(data).sort().forEach((field) => {
+        add(field);
+        add(data[field]);
+      });
+      break;
+    }
+    case 'set': {
+      const members = await redis.smembersBuffer(key);
+      members.sort(Buffer.compare).forEach(add);
+      break;
+    }
+    case 'zset': {
+      // ZRANGE order is fully defined by score and member, so it matches on both sides
+      const members = await redis.callBuffer('ZRANGE', [key, '0', '-1', 'WITHSCORES']) as Buffer[];
+      members.forEach(add);
+      break;
+    }
+    case 'list': {
+      const items = await redis.lrangeBuffer(key, 0, -1);
+      items.forEach(add);
+      break;
+    }
+    case 'stream': {
+      let start = '-';
+      while (true) {
+        const page = await redis.xrangeBuffer(key, start, '+', 'COUNT', SCAN_BATCH_SIZE);
+        for (const [id, fields] of page) {
+          add(id);
+          fields.forEach(add);
+        }
+        if (page.length < SCAN_BATCH_SIZE) break;
+        start = `(${page[page.length - 1][0].toString()}`;
+      }
+      break;
+    }
+    default: {
+      // Module and other types: fall back to the serialized value
+      const payload = await redis.dumpBuffer(key);
+      if (!payload) return null;
+      add(payload.subarray(0, payload.length - 10));
+    }
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Compares a large collection with its target key one source chunk at a
+ * time. Lists are compared position by position. Other types look each
+ * source element up on the target, which together with equal lengths means
+ * both hold the same elements, even if SCAN returns some of them twice.
+ */
+async function collectionsMatch(
+  source: RedisClient,
+  target: RedisClient,
+  key: string,
+  targetKey: string,
+  keyType: string,
+  chunkSize: number
+): Promise<boolean> {
+  const [sourceLength, targetLength] = await Promise.all([
+    collectionLength(source, key, keyType),
+    collectionLength(target, targetKey, keyType),
+  ]);
+  if (sourceLength !== targetLength) {
+    return false;
+  }
+
+  let matches = true;
+  let position = 0;
+  await readCollectionChunks(source, key, keyType, chunkSize, async (values) => {
+    // The reader cannot be stopped early; the rest of the source is read but not compared
+    if (!matches) {
+      return;
+    }
+
+    switch (keyType) {
+      case 'list': {
+        const items = await target.lrangeBuffer(targetKey, position, position + values.length - 1);
+        position += values.length;
+        matches = items.length === values.length && items.every((item, i) => item.equals(values[i]));
+        break;
+      }
+      case 'hash': {
+        const fields = values.filter((_, i) => i % 2 === 0);
+        const targetValues = await target.hmgetBuffer(targetKey, ...fields);
+        matches = targetValues.every((value, i) => value !== null && value.equals(values[i * 2 + 1]));
+        break;
+      }
+      case 'set': {
+        const pipeline = target.pipeline();
+        values.forEach((member) => pipeline.sismember(targetKey, member));
+        const results = await pipeline.exec();
+        matches = !!results && results.every(([error, found]) => !error && found === 1);
+        break;
+      }
+      default: {
+        const pipeline = target.pipeline();
+        const members = values.filter((_, i) => i % 2 === 0);
+        members.forEach((member) => pipeline.zscore(targetKey, member));
+        const results = await pipeline.exec();
+        matches = !!results && results.every(([error, score], i) => {
+          const sourceScore = values[i * 2 + 1].toString();
+          // Equal scores may be formatted differently by different Redis versions
+          return !error && score !== null && (score === sourceScore || Number(score) === Number(sourceScore));
+        });
+      }
+    }
+  }, true);
+
+  return matches;
+}
+
+/**
+ * SCANs a whole keyspace, every master of a cluster in turn, handing each
+ * batch of keys to `onBatch` before reading on.
+ */
+async function scanAll(
+  redis: RedisClient,
+  pattern: string | undefined,
+  onBatch: (keys: string[]) => Promise<void>
+): Promise<void> {
+  if (redis instanceof Cluster) {
+    // The node list is only known once the cluster client is connected
+    await redis.ping();
+  }
+  const nodes = redis instanceof Cluster ? redis.nodes('master') : [redis];
+
+  for (const node of nodes) {
+    let cursor = '0';
+    do {
+      const [next, keys] = await scan(node, cursor, pattern);
+      cursor = next;
+      await onBatch(keys);
+    } while (cursor !== '0');
+  }
+}
+
+function scan(redis: Redis, cursor: string, pattern?: string): Promise<[string, string[]]> {
+  return pattern
+    ? redis.scan(cursor, 'MATCH', pattern, 'COUNT', SCAN_BATCH_SIZE)
+    : redis.scan(cursor, 'COUNT', SCAN_BATCH_SIZE);
+}
+
+function createEmptyReport(): VerificationReport {
+  return {
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    keysChecked: 0,
+    matched: 0,
+    counts: { missing: 0, extra: 0, typeMismatches: 0, ttlMismatches: 0, valueMismatches: 0 },
+    missing: [],
+    extra: [],
+    typeMismatches: [],
+    ttlMismatches: [],
+    valueMismatches: [],
+  };
+}
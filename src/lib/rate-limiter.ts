@@ -0,0 +1,154 @@
+export interface RateLimitOptions {
+  maxKeysPerSecond?: number;    // 0 or unset means unlimited
+  maxBytesPerSecond?: number;
+  maxInFlight?: number;         // Concurrent per-key source reads, default 1000
+  latencyThresholdMs?: number;  // Enables automatic backoff when set
+  latencyProbe?: 'ping' | 'latency-latest';
+}
+
+export interface RateLimitState {
+  limits: RateLimitOptions;
+  effectiveInFlight: number;
+  backoffFactor: number;        // 1 = no backoff, lower values slow the migration down
+  sourceLatencyMs: number | null;
+}
+
+const DEFAULT_MAX_IN_FLIGHT = 1000;
+const MIN_BACKOFF_FACTOR = 0.05;
+
+/**
+ * Debt-based token bucket: callers take what they need up front and wait
+ * until the bucket has refilled enough to cover any deficit.
+ */
+class TokenBucket {
+  private tokens = 0;
+  private lastRefill = Date.now();
+
+  constructor(private rate: number) {
+    this.tokens = rate;
+  }
+
+  setRate(rate: number): void {
+    this.refill();
+    this.rate = rate;
+    this.tokens = Math.min(this.tokens, rate);
+  }
+
+  async take(amount: number): Promise<void> {
+    if (this.rate <= 0) {
+      return;
+    }
+
+    this.refill();
+    this.tokens -= amount;
+    if (this.tokens < 0) {
+      await sleep((-this.tokens / this.rate) * 1000);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.rate, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Caps the load the snapshot puts on the source: keys/sec, bytes/sec and the
+ * number of concurrent per-key reads. Limits can be changed while running, and
+ * reported source latency scales them down (and back up) automatically.
+ */
+export class RateLimiter {
+  private limits: RateLimitOptions;
+  private keys: TokenBucket;
+  private bytes: TokenBucket;
+  private inFlight = 0;
+  private waiting: Array<() => void> = [];
+  private backoffFactor = 1;
+  private sourceLatencyMs: number | null = null;
+
+  constructor(limits: RateLimitOptions = {}) {
+    this.limits = { ...limits };
+    this.keys = new TokenBucket(limits.maxKeysPerSecond || 0);
+    this.bytes = new TokenBucket(limits.maxBytesPerSecond || 0);
+  }
+
+  update(limits: RateLimitOptions): void {
+    this.limits = { ...this.limits, ...limits };
+    if (!this.limits.latencyThresholdMs) {
+      this.backoffFactor = 1;
+    }
+    this.applyLimits();
+  }
+
+  getState(): RateLimitState {
+    return {
+      limits: { ...this.limits },
+      effectiveInFlight: this.maxInFlight(),
+      backoffFactor: this.backoffFactor,
+      sourceLatencyMs: this.sourceLatencyMs,
+    };
+  }
+
+  /**
+   * Runs one unit of source work once a concurrency slot and a key token
+   * are available.
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    while (this.inFlight >= this.maxInFlight()) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    this.inFlight++;
+    try {
+      await this.keys.take(1);
+      return await task();
+    } finally {
+      this.inFlight--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  /**
+   * Accounts for bytes read from the source; waits when over budget.
+   */
+  async consumeBytes(bytes: number): Promise<void> {
+    await this.bytes.take(bytes);
+  }
+
+  /**
+   * Feeds a source latency sample into the backoff: halves the effective
+   * limits above the threshold and recovers gradually below it.
+   */
+  reportLatency(latencyMs: number): void {
+    this.sourceLatencyMs = latencyMs;
+    const threshold = this.limits.latencyThresholdMs;
+    if (!threshold) {
+      return;
+    }
+
+    this.backoffFactor = latencyMs > threshold
+      ? Math.max(MIN_BACKOFF_FACTOR, this.backoffFactor / 2)
+      : Math.min(1, this.backoffFactor * 1.25);
+    this.applyLimits();
+  }
+
+  private maxInFlight(): number {
+    const configured = this.limits.maxInFlight || DEFAULT_MAX_IN_FLIGHT;
+    return Math.max(1, Math.floor(configured * this.backoffFactor));
+  }
+
+  private applyLimits(): void {
+    this.keys.setRate((this.limits.maxKeysPerSecond || 0) * this.backoffFactor);
+    this.bytes.setRate((this.limits.maxBytesPerSecond || 0) * this.backoffFactor);
+
+    // Let waiters re-check against a possibly higher concurrency limit
+    const waiting = this.waiting;
+    this.waiting = [];
+    waiting.forEach((resolve) => resolve());
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
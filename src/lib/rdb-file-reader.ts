@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs';
+import { ByteReader } from './rdb-parser';
+
+const READ_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Thrown when the file ends in the middle of a read, e.g. a truncated AOF
+export class TruncatedFileError extends Error {
+  constructor(position: number) {
+    super(`Unexpected end of file at byte ${position}`);
+    this.name = 'TruncatedFileError';
+  }
+}
+
+/**
+ * Reads an RDB file, such as a backup's dump.rdb, in large chunks. `position`
+ * and `size` tell how far through the file the parser is. Lines can be read
+ * too, for the RESP commands of AOF files.
+ */
+export class RdbFileReader implements ByteReader {
+  private buffer = Buffer.alloc(0);
+  private offset = 0;
+  // Bytes handed out so far
+  public position = 0;
+
+  private constructor(private file: fs.FileHandle, public readonly size: number) {}
+
+  static async open(path: string): Promise<RdbFileReader> {
+    const file = await fs.open(path, 'r');
+    try {
+      const { size } = await file.stat();
+      return new RdbFileReader(file, size);
+    } catch (error) {
+      await file.close();
+      throw error;
+    }
+  }
+
+  async read(length: number): Promise<Buffer> {
+    if (!Number.isInteger(length) || length < 0) {
+      throw new Error(`Unexpected data at byte ${this.position}: cannot read ${length} bytes`);
+    }
+    const bytes = await this.peek(length);
+    this.offset += length;
+    this.position += length;
+    return bytes;
+  }
+
+  /**
+   * The next `length` bytes, without consuming them.
+   */
+  async peek(length: number): Promise<Buffer> {
+    if (this.buffer.length - this.offset < length) {
+      await this.fill(length);
+    }
+    return this.buffer.subarray(this.offset, this.offset + length);
+  }
+
+  /**
+   * Reads up to the next newline, returning the line without its CRLF.
+   */
+  async readLine(): Promise<string> {
+    let end = this.buffer.indexOf(10, this.offset);
+    while (end === -1) {
+      const scanned = this.buffer.length - this.offset;
+      await this.fill(scanned + 1);
+      end = this.buffer.indexOf(10, this.offset + scanned);
+    }
+    return (await this.read(end - this.offset + 1)).toString().replace(/\r?\n$/, '');
+  }
+
+  atEnd(): boolean {
+    return this.position >= this.size;
+  }
+
+  async close(): Promise<void> {
+    await this.file.close();
+  }
+
+  /**
+   * Reads on until at least `length` unread bytes are buffered. Slices handed
+   * out earlier keep pointing into the previous buffer, so they stay valid.
+   */
+  private async fill(length: number): Promise<void> {
+    const parts = [this.buffer.subarray(this.offset)];
+    let buffered = parts[0].length;
+
+    while (buffered < length) {
+      const chunk = Buffer.alloc(Math.max(length - buffered, READ_CHUNK_SIZE));
+      const { bytesRead } = await this.file.read(chunk, 0, chunk.length, null);
+      if (bytesRead === 0) {
+        throw new TruncatedFileError(this.position + buffered);
+      }
+      parts.push(chunk.subarray(0, bytesRead));
+      buffered += bytesRead;
+    }
+
+    this.buffer = Buffer.concat(parts, buffered);
+    this.offset = 0;
+  }
+}
@@ -0,0 +1,754 @@
+// Decoder for the RDB format Redis uses for snapshots, replication full
+// syncs and DUMP payloads. Values are decoded into plain members so they can
+// be written to a target of any version with ordinary commands.
+
+export const MIN_RDB_VERSION = 1;
+export const MAX_RDB_VERSION = 11;
+
+/**
+ * Sequential access to the raw bytes of an RDB, e.g. a file or a socket.
+ * `read` resolves with exactly `length` bytes or rejects at end of input.
+ */
+export interface ByteReader {
+  read(length: number): Promise<Buffer>;
+}
+
+export type RdbValue =
+  | { type: 'string'; value: Buffer }
+  | { type: 'list'; items: Buffer[] }
+  | { type: 'set'; members: Buffer[] }
+  | { type: 'zset'; members: Array<[Buffer, string]> }     // Member and score
+  | { type: 'hash'; fields: Array<[Buffer, Buffer]> }
+  | { type: 'stream'; stream: RdbStream }
+  | { type: 'module'; module: string };                   // Opaque without the module itself
+
+export interface RdbStream {
+  entries: Array<[string, Buffer[]]>;
+  lastId: string;
+  groups: Array<{
+    name: string;
+    lastDeliveredId: string;
+    consumers: string[];
+    pending: Array<{ id: string; consumer: string; deliveryTime: number; deliveries: number }>;
+  }>;
+}
+
+export interface RdbKey {
+  db: number;
+  key: Buffer;                 // Name as stored, which need not be valid UTF-8
+  value: RdbValue;
+  expireAt: number;            // Unix time in ms on the server's clock, 0 when the key never expires
+}
+
+export interface RdbHandler {
+  onKey(entry: RdbKey): Promise<void> | void;
+  onDatabaseSize?(db: number, keys: number): void;
+  onAux?(name: string, value: string): void;
+  onFunction?(code: string): Promise<void> | void;
+}
+
+const OPCODE = {
+  SLOT_INFO: 0xf4,
+  FUNCTION2: 0xf5,
+  FUNCTION_PRE_GA: 0xf6,
+  MODULE_AUX: 0xf7,
+  IDLE: 0xf8,
+  FREQ: 0xf9,
+  AUX: 0xfa,
+  RESIZEDB: 0xfb,
+  EXPIRETIME_MS: 0xfc,
+  EXPIRETIME: 0xfd,
+  SELECTDB: 0xfe,
+  EOF: 0xff,
+};
+
+const TYPE = {
+  STRING: 0,
+  LIST: 1,
+  SET: 2,
+  ZSET: 3,
+  HASH: 4,
+  ZSET_2: 5,
+  MODULE: 6,
+  MODULE_2: 7,
+  HASH_ZIPMAP: 9,
+  LIST_ZIPLIST: 10,
+  SET_INTSET: 11,
+  ZSET_ZIPLIST: 12,
+  HASH_ZIPLIST: 13,
+  LIST_QUICKLIST: 14,
+  STREAM_LISTPACKS: 15,
+  HASH_LISTPACK: 16,
+  ZSET_LISTPACK: 17,
+  LIST_QUICKLIST_2: 18,
+  STREAM_LISTPACKS_2: 19,
+  SET_LISTPACK: 20,
+  STREAM_LISTPACKS_3: 21,
+};
+
+// Special string encodings, flagged by the top two bits of the length byte
+const ENCODING = {
+  INT8: 0,
+  INT16: 1,
+  INT32: 2,
+  LZF: 3,
+};
+
+// Module values are a sequence of typed fields ending with EOF
+const MODULE_OPCODE = {
+  EOF: 0,
+  SINT: 1,
+  UINT: 2,
+  FLOAT: 3,
+  DOUBLE: 4,
+  STRING: 5,
+};
+
+const QUICKLIST_NODE_PLAIN = 1;
+const STREAM_ITEM_FLAG_DELETED = 1;
+const STREAM_ITEM_FLAG_SAMEFIELDS = 2;
+
+/**
+ * Reads a complete RDB from `reader`, handing every key to the handler in
+ * file order. Keys are only awaited one at a time, so the handler can apply
+ * backpressure. Resolves with the RDB version once the EOF marker and its
+ * checksum have been read.
+ */
+export async function parseRdb(reader: ByteReader, handler: RdbHandler): Promise<number> {
+  const decoder = new RdbDecoder(reader);
+
+  const header = (await reader.read(9)).toString('latin1');
+  if (!header.startsWith('REDIS')) {
+    throw new Error('Not an RDB file: missing REDIS header');
+  }
+  const version = Number(header.slice(5));
+  if (!(version >= MIN_RDB_VERSION && version <= MAX_RDB_VERSION)) {
+    throw new Error(`Unsupported RDB version ${header.slice(5)} (supported: ${MIN_RDB_VERSION}-${MAX_RDB_VERSION})`);
+  }
+
+  let db = 0;
+  let expireAt = 0;
+
+  while (true) {
+    const opcode = await decoder.readByte();
+
+    switch (opcode) {
+      case OPCODE.EOF:
+        if (version >= 5) {
+          await reader.read(8); // CRC64 checksum
+        }
+        return version;
+      case OPCODE.SELECTDB:
+        db = await decoder.readLength();
+        continue;
+      case OPCODE.RESIZEDB: {
+        const keys = await decoder.readLength();
+        await decoder.readLength(); // Keys with an expiry
+        handler.onDatabaseSize?.(db, keys);
+        continue;
+      }
+      case OPCODE.AUX: {
+        const name = (await decoder.readString()).toString();
+        const value = (await decoder.readString()).toString();
+        handler.onAux?.(name, value);
+        continue;
+      }
+      case OPCODE.EXPIRETIME:
+        expireAt = (await reader.read(4)).readUInt32LE(0) * 1000;
+        continue;
+      case OPCODE.EXPIRETIME_MS:
+        expireAt = Number((await reader.read(8)).readBigUInt64LE(0));
+        continue;
+      case OPCODE.FREQ:
+        await reader.read(1);
+        continue;
+      case OPCODE.IDLE:
+        await decoder.readLength();
+        continue;
+      case OPCODE.MODULE_AUX:
+        await decoder.readLength(); // Module ID
+        await decoder.readLength(); // When opcode
+        await decoder.readLength(); // When
+        await decoder.skipModuleValue();
+        continue;
+      case OPCODE.FUNCTION2: {
+        const code = (await decoder.readString()).toString();
+        await handler.onFunction?.(code);
+        continue;
+      }
+      case OPCODE.FUNCTION_PRE_GA:
+        throw new Error('RDB contains functions in the Redis 7.0 release-candidate format, which is not supported');
+      case OPCODE.SLOT_INFO:
+        await decoder.readLength(); // Slot
+        await decoder.readLength(); // Slot size
+        await decoder.readLength(); // Expires slot size
+        continue;
+    }
+
+    const key = await decoder.readString();
+    const value = await decoder.readValue(opcode);
+    await handler.onKey({ db, key, value, expireAt });
+    expireAt = 0;
+  }
+}
+
+class RdbDecoder {
+  constructor(private reader: ByteReader) {}
+
+  async readByte(): Promise<number> {
+    return (await this.reader.read(1))[0];
+  }
+
+  /**
+   * Reads a length. Returns the special encoding number instead when
+   * `encoded` is passed and the value is a specially encoded string.
+   */
+  async readLength(encoded?: { special: boolean }): Promise<number> {
+    const first = await this.readByte();
+    const kind = first >> 6;
+
+    if (kind === 0) {
+      return first & 0x3f;
+    }
+    if (kind === 1) {
+      return ((first & 0x3f) << 8) | await this.readByte();
+    }
+    if (kind === 2) {
+      if (first === 0x80) {
+        return (await this.reader.read(4)).readUInt32BE(0);
+      }
+      if (first === 0x81) {
+        return Number((await this.reader.read(8)).readBigUInt64BE(0));
+      }
+      throw new Error(`Invalid RDB length encoding 0x${first.toString(16)}`);
+    }
+
+    if (!encoded) {
+      throw new Error('Unexpected special string encoding where a length was expected');
+    }
+    encoded.special = true;
+    return first & 0x3f;
+  }
+
+  async readString(): Promise<Buffer> {
+    const encoded = { special: false };
+    const length = await this.readLength(encoded);
+    if (!encoded.special) {
+      return this.reader.read(length);
+    }
+
+    switch (length) {
+      case ENCODING.INT8:
+        return Buffer.from(String((await this.reader.read(1)).readInt8(0)));
+      case ENCODING.INT16:
+        return Buffer.from(String((await this.reader.read(2)).readInt16LE(0)));
+      case ENCODING.INT32:
+        return Buffer.from(String((await this.reader.read(4)).readInt32LE(0)));
+      case ENCODING.LZF: {
+        const compressedLength = await this.readLength();
+        const length = await this.readLength();
+        return lzfDecompress(await this.reader.read(compressedLength), length);
+      }
+      default:
+        throw new Error(`Unknown RDB string encoding ${length}`);
+    }
+  }
+
+  /**
+   * Scores of the original ZSET type: a length-prefixed decimal string, with
+   * 253-255 standing for NaN, +inf and -inf.
+   */
+  async readDoubleString(): Promise<string> {
+    const length = await this.readByte();
+    switch (length) {
+      case 253: return 'nan';
+      case 254: return 'inf';
+      case 255: return '-inf';
+      default: return (await this.reader.read(length)).toString('latin1');
+    }
+  }
+
+  async readBinaryDouble(): Promise<string> {
+    return formatScore((await this.reader.read(8)).readDoubleLE(0));
+  }
+
+  async readValue(type: number): Promise<RdbValue> {
+    switch (type) {
+      case TYPE.STRING:
+        return { type: 'string', value: await this.readString() };
+      case TYPE.LIST:
+        return { type: 'list', items: await this.readStrings(await this.readLength()) };
+      case TYPE.SET:
+        return { type: 'set', members: await this.readStrings(await this.readLength()) };
+      case TYPE.ZSET:
+      case TYPE.ZSET_2: {
+        const count = await this.readLength();
+        const members: Array<[Buffer, string]> = [];
+        for (let i = 0; i < count; i++) {
+          const member = await this.readString();
+          members.push([member, type === TYPE.ZSET ? await this.readDoubleString() : await this.readBinaryDouble()]);
+        }
+        return { type: 'zset', members };
+      }
+      case TYPE.HASH: {
+        const count = await this.readLength();
+        const fields: Array<[Buffer, Buffer]> = [];
+        for (let i = 0; i < count; i++) {
+          fields.push([await this.readString(), await this.readString()]);
+        }
+        return { type: 'hash', fields };
+      }
+      case TYPE.HASH_ZIPMAP:
+        return { type: 'hash', fields: pairs(parseZipmap(await this.readString())) };
+      case TYPE.LIST_ZIPLIST:
+        return { type: 'list', items: parseZiplist(await this.readString()) };
+      case TYPE.SET_INTSET:
+        return { type: 'set', members: parseIntset(await this.readString()) };
+      case TYPE.SET_LISTPACK:
+        return { type: 'set', members: parseListpack(await this.readString()) };
+      case TYPE.ZSET_ZIPLIST:
+      case TYPE.ZSET_LISTPACK: {
+        const blob = await this.readString();
+        const flat = type === TYPE.ZSET_ZIPLIST ? parseZiplist(blob) : parseListpack(blob);
+        return { type: 'zset', members: pairs(flat).map(([member, score]): [Buffer, string] => [member, score.toString()]) };
+      }
+      case TYPE.HASH_ZIPLIST:
+        return { type: 'hash', fields: pairs(parseZiplist(await this.readString())) };
+      case TYPE.HASH_LISTPACK:
+        return { type: 'hash', fields: pairs(parseListpack(await this.readString())) };
+      case TYPE.LIST_QUICKLIST:
+      case TYPE.LIST_QUICKLIST_2: {
+        const nodes = await this.readLength();
+        const items: Buffer[] = [];
+        for (let i = 0; i < nodes; i++) {
+          if (type === TYPE.LIST_QUICKLIST) {
+            items.push(...parseZiplist(await this.readString()));
+            continue;
+          }
+          const container = await this.readLength();
+          const node = await this.readString();
+          if (container === QUICKLIST_NODE_PLAIN) {
+            items.push(node);
+          } else {
+            items.push(...parseListpack(node));
+          }
+        }
+        return { type: 'list', items };
+      }
+      case TYPE.STREAM_LISTPACKS:
+      case TYPE.STREAM_LISTPACKS_2:
+      case TYPE.STREAM_LISTPACKS_3:
+        return { type: 'stream', stream: await this.readStream(type) };
+      case TYPE.MODULE_2: {
+        const moduleId = await this.readModuleId();
+        await this.skipModuleValue();
+        return { type: 'module', module: moduleName(moduleId) };
+      }
+      case TYPE.MODULE:
+        throw new Error('RDB contains a value of a pre-4.0 module type, which cannot be skipped');
+      default:
+        throw new Error(`Unknown RDB value type ${type}`);
+    }
+  }
+
+  /**
+   * Module type IDs use the full 64 bits, more than a number holds exactly.
+   */
+  private async readModuleId(): Promise<bigint> {
+    const first = await this.readByte();
+    if (first === 0x81) {
+      return (await this.reader.read(8)).readBigUInt64BE(0);
+    }
+    if (first === 0x80) {
+      return BigInt((await this.reader.read(4)).readUInt32BE(0));
+    }
+    throw new Error(`Invalid module type ID encoding 0x${first.toString(16)}`);
+  }
+
+  async skipModuleValue(): Promise<void> {
+    while (true) {
+      const opcode = await this.readLength();
+      switch (opcode) {
+        case MODULE_OPCODE.EOF:
+          return;
+        case MODULE_OPCODE.SINT:
+        case MODULE_OPCODE.UINT:
+          await this.readLength();
+          break;
+        case MODULE_OPCODE.FLOAT:
+          await this.reader.read(4);
+          break;
+        case MODULE_OPCODE.DOUBLE:
+          await this.reader.read(8);
+          break;
+        case MODULE_OPCODE.STRING:
+          await this.readString();
+          break;
+        default:
+          throw new Error(`Unknown module value opcode ${opcode}`);
+      }
+    }
+  }
+
+  private async readStrings(count: number): Promise<Buffer[]> {
+    const values: Buffer[] = [];
+    for (let i = 0; i < count; i++) {
+      values.push(await this.readString());
+    }
+    return values;
+  }
+
+  /**
+   * Streams are stored as a radix tree of listpacks keyed by their master
+   * entry ID, followed by the stream metadata and its consumer groups.
+   */
+  private async readStream(type: number): Promise<RdbStream> {
+    const entries: Array<[string, Buffer[]]> = [];
+
+    const listpacks = await this.readLength();
+    for (let i = 0; i < listpacks; i++) {
+      const masterId = await this.readString();
+      entries.push(...parseStreamListpack(masterId, await this.readString()));
+    }
+
+    await this.readLength(); // Number of entries
+    const lastId = await this.readStreamId();
+    if (type >= TYPE.STREAM_LISTPACKS_2) {
+      await this.readStreamId(); // First entry ID
+      await this.readStreamId(); // Max deleted entry ID
+      await this.readLength();   // Entries added
+    }
+
+    const groups: RdbStream['groups'] = [];
+    const groupCount = await this.readLength();
+    for (let i = 0; i < groupCount; i++) {
+      const name = (await this.readString()).toString();
+      const lastDeliveredId = await this.readStreamId();
+      if (type >= TYPE.STREAM_LISTPACKS_2) {
+        await this.readLength(); // Entries read
+      }
+
+      const pending = new Map<string, { deliveryTime: number; deliveries: number }>();
+      const pendingCount = await this.readLength();
+      for (let j = 0; j < pendingCount; j++) {
+        const id = formatRawStreamId(await this.reader.read(16));
+        const deliveryTime = Number((await this.reader.read(8)).readBigUInt64LE(0));
+        pending.set(id, { deliveryTime, deliveries: await this.readLength() });
+      }
+
+      const consumers: string[] = [];
+      const owned: RdbStream['groups'][number]['pending'] = [];
+      const consumerCount = await this.readLength();
+      for (let j = 0; j < consumerCount; j++) {
+        const consumer = (await this.readString()).toString();
+        await this.reader.read(8); // Seen time
+        if (type >= TYPE.STREAM_LISTPACKS_3) {
+          await this.reader.read(8); // Active time
+        }
+        consumers.push(consumer);
+
+        const ownedCount = await this.readLength();
+        for (let k = 0; k < ownedCount; k++) {
+          const id = formatRawStreamId(await this.reader.read(16));
+          const entry = pending.get(id);
+          if (entry) {
+            owned.push({ id, consumer, ...entry });
+          }
+        }
+      }
+
+      groups.push({ name, lastDeliveredId, consumers, pending: owned });
+    }
+
+    return { entries, lastId, groups };
+  }
+
+  private async readStreamId(): Promise<string> {
+    const ms = await this.readLength();
+    const seq = await this.readLength();
+    return `${ms}-${seq}`;
+  }
+}
+
+/**
+ * Decodes the entries of one stream listpack. Entry IDs are stored as deltas
+ * from the master ID, and entries flagged SAMEFIELDS reuse the master entry's
+ * field names.
+ */
+function parseStreamListpack(masterId: Buffer, blob: Buffer): Array<[string, Buffer[]]> {
+  const masterMs = masterId.readBigUInt64BE(0);
+  const masterSeq = masterId.readBigUInt64BE(8);
+  const items = parseListpack(blob);
+  let i = 0;
+  const next = () => items[i++];
+  const nextNumber = () => Number(next().toString());
+
+  const count = nextNumber();
+  const deleted = nextNumber();
+  const masterFields: Buffer[] = [];
+  const masterFieldCount = nextNumber();
+  for (let j = 0; j < masterFieldCount; j++) {
+    masterFields.push(next());
+  }
+  next(); // Master entry terminator
+
+  const entries: Array<[string, Buffer[]]> = [];
+  for (let n = 0; n < count + deleted; n++) {
+    const flags = nextNumber();
+    const id = `${masterMs + BigInt(next().toString())}-${masterSeq + BigInt(next().toString())}`;
+    const fields: Buffer[] = [];
+
+    if (flags & STREAM_ITEM_FLAG_SAMEFIELDS) {
+      masterFields.forEach((field) => fields.push(field, next()));
+    } else {
+      const fieldCount = nextNumber();
+      for (let j = 0; j < fieldCount; j++) {
+        fields.push(next(), next());
+      }
+    }
+    next(); // Number of listpack items in this entry, for backward iteration
+
+    if (!(flags & STREAM_ITEM_FLAG_DELETED)) {
+      entries.push([id, fields]);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Decodes a ziplist, the compact list encoding of RDB versions before 10.
+ * Integers are returned in their decimal string form.
+ */
+export function parseZiplist(blob: Buffer): Buffer[] {
+  const items: Buffer[] = [];
+  let pos = 10; // zlbytes, zltail, zllen
+
+  while (blob[pos] !== 0xff) {
+    pos += blob[pos] === 0xfe ? 5 : 1; // Previous entry length
+
+    const encoding = blob[pos];
+    const kind = encoding >> 6;
+    if (kind === 0) {
+      const length = encoding & 0x3f;
+      items.push(blob.subarray(pos + 1, pos + 1 + length));
+      pos += 1 + length;
+    } else if (kind === 1) {
+      const length = ((encoding & 0x3f) << 8) | blob[pos + 1];
+      items.push(blob.subarray(pos + 2, pos + 2 + length));
+      pos += 2 + length;
+    } else if (kind === 2) {
+      const length = blob.readUInt32BE(pos + 1);
+      items.push(blob.subarray(pos + 5, pos + 5 + length));
+      pos += 5 + length;
+    } else {
+      let value: bigint | number;
+      switch (encoding) {
+        case 0xc0: value = blob.readInt16LE(pos + 1); pos += 3; break;
+        case 0xd0: value = blob.readInt32LE(pos + 1); pos += 5; break;
+        case 0xe0: value = blob.readBigInt64LE(pos + 1); pos += 9; break;
+        case 0xf0: value = blob.readIntLE(pos + 1, 3); pos += 4; break;
+        case 0xfe: value = blob.readInt8(pos + 1); pos += 2; break;
+        default:
+          if (encoding < 0xf1 || encoding > 0xfd) {
+            throw new Error(`Invalid ziplist entry encoding 0x${encoding.toString(16)}`);
+          }
+          value = (encoding & 0x0f) - 1;
+          pos += 1;
+      }
+      items.push(Buffer.from(String(value)));
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Decodes a listpack, the compact encoding of small collections since RDB
+ * version 10. Integers are returned in their decimal string form.
+ */
+export function parseListpack(blob: Buffer): Buffer[] {
+  const items: Buffer[] = [];
+  let pos = 6; // Total bytes, number of elements
+
+  while (blob[pos] !== 0xff) {
+    const encoding = blob[pos];
+    let entryLength: number;
+
+    if ((encoding & 0x80) === 0) {
+      items.push(Buffer.from(String(encoding & 0x7f)));
+      entryLength = 1;
+    } else if ((encoding & 0xc0) === 0x80) {
+      const length = encoding & 0x3f;
+      items.push(blob.subarray(pos + 1, pos + 1 + length));
+      entryLength = 1 + length;
+    } else if ((encoding & 0xe0) === 0xc0) {
+      const value = ((encoding & 0x1f) << 8) | blob[pos + 1];
+      items.push(Buffer.from(String(value >= 1 << 12 ? value - (1 << 13) : value)));
+      entryLength = 2;
+    } else if ((encoding & 0xf0) === 0xe0) {
+      const length = ((encoding & 0x0f) << 8) | blob[pos + 1];
+      items.push(blob.subarray(pos + 2, pos + 2 + length));
+      entryLength = 2 + length;
+    } else {
+      switch (encoding) {
+        case 0xf0: {
+          const length = blob.readUInt32LE(pos + 1);
+          items.push(blob.subarray(pos + 5, pos + 5 + length));
+          entryLength = 5 + length;
+          break;
+        }
+        case 0xf1: items.push(Buffer.from(String(blob.readInt16LE(pos + 1)))); entryLength = 3; break;
+        case 0xf2: items.push(Buffer.from(String(blob.readIntLE(pos + 1, 3)))); entryLength = 4; break;
+        case 0xf3: items.push(Buffer.from(String(blob.readInt32LE(pos + 1)))); entryLength = 5; break;
+        case 0xf4: items.push(Buffer.from(String(blob.readBigInt64LE(pos + 1)))); entryLength = 9; break;
+        default:
+          throw new Error(`Invalid listpack entry encoding 0x${encoding.toString(16)}`);
+      }
+    }
+
+    // Every entry ends with its own length, encoded in 1-5 bytes, for backward iteration
+    pos += entryLength + backlenBytes(entryLength);
+  }
+
+  return items;
+}
+
+/**
+ * Size of a listpack entry's back-length, with the bounds of Redis'
+ * lpEncodeBacklen.
+ */
+function backlenBytes(entryLength: number): number {
+  if (entryLength <= 127) return 1;
+  if (entryLength < 16383) return 2;
+  if (entryLength < 2097151) return 3;
+  if (entryLength < 268435455) return 4;
+  return 5;
+}
+
+/**
+ * Decodes an intset: a sorted array of 2, 4 or 8-byte little-endian integers.
+ */
+export function parseIntset(blob: Buffer): Buffer[] {
+  const width = blob.readUInt32LE(0);
+  const count = blob.readUInt32LE(4);
+  const members: Buffer[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const offset = 8 + i * width;
+    const value = width === 8 ? blob.readBigInt64LE(offset) : blob.readIntLE(offset, width);
+    members.push(Buffer.from(String(value)));
+  }
+
+  return members;
+}
+
+/**
+ * Decodes a zipmap, the small-hash encoding used before Redis 2.6.
+ */
+function parseZipmap(blob: Buffer): Buffer[] {
+  const items: Buffer[] = [];
+  let pos = 1; // Entry count, unreliable above 253
+
+  const readLength = () => {
+    const first = blob[pos];
+    if (first < 254) {
+      pos += 1;
+      return first;
+    }
+    const length = blob.readUInt32LE(pos + 1);
+    pos += 5;
+    return length;
+  };
+
+  while (blob[pos] !== 0xff) {
+    const keyLength = readLength();
+    items.push(blob.subarray(pos, pos + keyLength));
+    pos += keyLength;
+
+    const valueLength = readLength();
+    const free = blob[pos];
+    pos += 1;
+    items.push(blob.subarray(pos, pos + valueLength));
+    pos += valueLength + free;
+  }
+
+  return items;
+}
+
+/**
+ * LZF decompression as implemented by liblzf, which Redis uses for strings
+ * longer than 20 bytes when rdbcompression is on.
+ */
+function lzfDecompress(input: Buffer, outputLength: number): Buffer {
+  const output = Buffer.alloc(outputLength);
+  let ip = 0;
+  let op = 0;
+
+  while (ip < input.length) {
+    const ctrl = input[ip++];
+
+    if (ctrl < 32) {
+      // Literal run of ctrl + 1 bytes
+      input.copy(output, op, ip, ip + ctrl + 1);
+      ip += ctrl + 1;
+      op += ctrl + 1;
+      continue;
+    }
+
+    // Back reference; copied byte by byte as source and destination may overlap
+    let length = ctrl >> 5;
+    if (length === 7) {
+      length += input[ip++];
+    }
+    let ref = op - ((ctrl & 0x1f) << 8) - input[ip++] - 1;
+    if (ref < 0) {
+      throw new Error('Corrupt LZF data in RDB');
+    }
+    for (let i = 0; i < length + 2; i++) {
+      output[op++] = output[ref++];
+    }
+  }
+
+  if (op !== outputLength) {
+    throw new Error('Corrupt LZF data in RDB');
+  }
+  return output;
+}
+
+function pairs(flat: Buffer[]): Array<[Buffer, Buffer]> {
+  const result: Array<[Buffer, Buffer]> = [];
+  for (let i = 0; i + 1 < flat.length; i += 2) {
+    result.push([flat[i], flat[i + 1]]);
+  }
+  return result;
+}
+
+function formatRawStreamId(raw: Buffer): string {
+  return `${raw.readBigUInt64BE(0)}-${raw.readBigUInt64BE(8)}`;
+}
+
+/**
+ * Formats a score the way ZADD parses it; JavaScript's shortest round-trip
+ * representation keeps the exact double.
+ */
+function formatScore(score: number): string {
+  if (score === Infinity) return 'inf';
+  if (score === -Infinity) return '-inf';
+  return String(score);
+}
+
+/**
+ * Module type IDs pack a 9-character name (6 bits per character) above a
+ * 10-bit encoding version.
+ */
+function moduleName(moduleId: bigint): string {
+  const charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+  let id = moduleId >> BigInt(10);
+  let name = '';
+  for (let i = 0; i < 9; i++) {
+    name = charset[Number(id & BigInt(63))] + name;
+    id >>= BigInt(6);
+  }
+  return name;
+}
@@ -0,0 +1,96 @@
+import Redis, { Cluster } from 'ioredis';
+import { connectionOptions, toTlsOptions } from './connection-options';
+import { RedisConfig } from './redis-migrator';
+
+// Single nodes and clusters share the command API
+export type RedisClient = Redis | Cluster;
+
+export interface ClientOptions {
+  // Only connect on the first command, so an unused side stays closed
+  lazy?: boolean;
+  // Sentinel connections: called once the client is back after a failover
+  onFailover?: () => void;
+}
+
+// Reconnect attempts, at most 2s apart, before a sentinel connection gives up
+const FAILOVER_RETRY_LIMIT = 90;
+
+/**
+ * Connects to a single instance, directly or through its sentinels.
+ */
+export function createNodeClient(config: RedisConfig, db: number, options: ClientOptions = {}): Redis {
+  if (config.sentinels?.length) {
+    return createSentinelClient(config, db, options);
+  }
+
+  return new Redis({
+    ...connectionOptions(config),
+    db,
+    lazyConnect: options.lazy,
+    retryStrategy: () => null, // Disable auto-retry
+    maxRetriesPerRequest: 1,
+  });
+}
+
+/**
+ * Connects to a cluster through its seed node. Cluster clients follow
+ * MOVED/ASK redirections themselves.
+ */
+export function createClusterClient(config: RedisConfig, options: ClientOptions = {}): Cluster {
+  return new Cluster([{ host: config.host, port: config.port }], {
+    lazyConnect: options.lazy,
+    clusterRetryStrategy: () => null, // Disable auto-retry
+    redisOptions: {
+      username: config.username || undefined,
+      password: config.password,
+      tls: toTlsOptions(config),
+      maxRetriesPerRequest: 1,
+    },
+  });
+}
+
+/**
+ * Connects to whatever `config` describes: a cluster, a sentinel-managed
+ * master or a single node.
+ */
+export function createRedisClient(config: RedisConfig, db: number, options: ClientOptions = {}): RedisClient {
+  return config.cluster ? createClusterClient(config, options) : createNodeClient(config, db, options);
+}
+
+/**
+ * Connects to the current master of a sentinel-managed deployment. Unlike
+ * direct connections it keeps reconnecting, through the sentinels, so a
+ * failover is followed; commands wait for the new master instead of failing.
+ */
+function createSentinelClient(config: RedisConfig, db: number, options: ClientOptions): Redis {
+  const client = new Redis({
+    sentinels: config.sentinels,
+    name: config.masterName,
+    sentinelPassword: config.sentinelPassword,
+    ...connectionOptions(config),
+    db,
+    lazyConnect: options.lazy,
+    // Reconnect when the sentinels announce a new master, even if the old one is still up
+    failoverDetector: true,
+    retryStrategy: failoverRetryDelay,
+    sentinelRetryStrategy: failoverRetryDelay,
+    maxRetriesPerRequest: null,
+  });
+
+  let reconnecting = false;
+  client.on('reconnecting', () => {
+    reconnecting = true;
+  });
+  client.on('ready', () => {
+    if (reconnecting) {
+      reconnecting = false;
+      options.onFailover?.();
+    }
+  });
+
+  return client;
+}
+
+function failoverRetryDelay(times: number): number | null {
+  return times > FAILOVER_RETRY_LIMIT ? null : Math.min(times * 200, 2000);
+}
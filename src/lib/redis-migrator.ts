@@ -1,20 +1,97 @@
-import Redis from 'ioredis';
+import Redis, { ChainableCommander, Cluster, RedisKey } from 'ioredis';
 import { EventEmitter } from 'events';
-
-interface RedisConfig {
+import { KeyFilter, KeyFilterOptions } from './key-filter';
+import { KeyMapper, KeyMappingRule } from './key-mapper';
+import { MigrationCheckpoint, saveCheckpoint } from './checkpoint-store';
+import { ClusterShard, discoverClusterMasters, hashTag, keySlot } from './cluster-topology';
+import { RedisClient, createClusterClient, createNodeClient } from './redis-clients';
+import { collectionLength, readCollectionChunks, readStreamPages } from './collection-reader';
+import { computeDigest } from './migration-verifier';
+import { keyspaceAction } from './keyspace-events';
+import { ChangeAction, KeyChangeQueue, mergeRepairs } from './change-queue';
+import { RateLimitOptions, RateLimiter } from './rate-limiter';
+import { RdbKey, RdbStream, RdbValue, parseRdb } from './rdb-parser';
+import { RdbFileReader } from './rdb-file-reader';
+import { AofFile, AofReadResult, AofReplayOptions, readAofCommands, resolveAofFiles, startsWithRdb } from './aof-reader';
+import { ArchiveHandler, ArchiveReader, ArchiveRecord, ArchiveWriter, toArchiveRecord } from './snapshot-archive';
+import { ReplicationClient } from './replication-client';
+import {
+  ConflictError,
+  ConflictPolicy,
+  ConflictRecord,
+  ConflictResolution,
+  keepsTargetKey,
+  readConflictTimestamp,
+} from './conflict-policy';
+
+export interface RedisConfig {
   host: string;
   port: number;
+  username?: string;            // ACL user (Redis 6+), default user when unset
   password?: string;
+  path?: string;                // Unix socket path; host/port are ignored when set
   tls?: boolean;
+  tlsOptions?: TlsConfig;
+  db?: number;
+  // Treat host:port as a seed node of a Redis Cluster
+  cluster?: boolean;
+  // Sentinel-managed deployments: the master named `masterName` is looked up
+  // through these sentinels, and host/port are ignored
+  sentinels?: Array<{ host: string; port: number }>;
+  masterName?: string;
+  sentinelPassword?: string;
+}
+
+export interface DatabaseMapping {
+  source: number;
+  target: number;
+}
+
+export interface DatabaseProgress extends DatabaseMapping {
+  shard?: string;              // host:port of the cluster master, for cluster sources
+  processed: number;
+  skipped: number;
+  total: number;
+  scanComplete: boolean;
+}
+
+// PEM contents and verification settings used when `tls` is on
+export interface TlsConfig {
+  ca?: string;
+  cert?: string;                // Client certificate, for mutual TLS
+  key?: string;
+  servername?: string;          // SNI name, when it differs from the host
+  rejectUnauthorized?: boolean; // Default true
+}
+
+// One logical source database together with the connections and counters
+// used to copy it into its mapped target database.
+interface DatabaseContext {
+  mapping: DatabaseMapping;
+  source: Redis;
+  target: RedisClient;
+  scanCursor: string;
+  progress: DatabaseProgress;
+  // Target keys that were there before this run, the only possible
+  // conflicts, with the policy's latest resolution (null until their source
+  // key is copied). A key leaves once it is overwritten, so the map only
+  // shrinks. Databases sharing a target database share the map. Empty under
+  // the 'overwrite' policy, which never keeps a target key.
+  conflicts: Map<string, ConflictResolution | null>;
+  // Cluster sources: the master this context scans, with its own subscriber
+  shard?: ClusterShard;
+  subscriber?: Redis;
 }
 
 interface MigrationStats {
   processed: number;
+  skipped: number;
   total: number;
   errors: string[];
   startTime: number;
   keysPerSecond: number;
   totalSize: number;
+  conflicts: number;
 }
 
 interface RedisError extends Error {
@@ -25,8 +102,155 @@ interface RedisError extends Error {
   command?: string;
 }
 
-interface MigratorOptions {
+// 'dump' copies keys byte for byte with DUMP/RESTORE and falls back to the
+// per-type commands when the source and target RDB versions differ;
+// 'native' always uses the per-type commands.
+type TransferMode = 'dump' | 'native';
+
+// Elements MEMORY USAGE samples per collection when a plan estimates sizes
+const PLAN_MEMORY_SAMPLES = 5;
+
+// A key read from the source: the commands replacing it on the target, queued
+// onto a pipeline in one go, or why it cannot be written
+type KeyWrite = ((pipeline: ChainableCommander) => void) | 'missing' | 'unsupported';
+
+// How changes made on the source during the migration reach the target:
+// 'notifications' SCANs a snapshot and follows keyspace notifications;
+// 'replication' connects as a replica, seeds the target from the PSYNC RDB
+// and then applies the replicated command stream in order.
+export type ChangeCapture = 'notifications' | 'replication';
+
+export interface MigratorOptions {
   enableRealtimeSync?: boolean;
+  // Keys real-time sync applies to the target at once, default 100; changes
+  // to the same key are always applied one after another
+  realtimeConcurrency?: number;
+  transferMode?: TransferMode;
+  changeCapture?: ChangeCapture;
+  // Source databases to migrate and where each one lands; defaults to the
+  // `db` of the source and target configs
+  databases?: DatabaseMapping[];
+  // Include/exclude rules limiting which keys are migrated and synced
+  keyFilter?: KeyFilterOptions;
+  // Rename/drop rules applied to every key written to the target
+  keyMapping?: KeyMappingRule[];
+  // Persist the SCAN cursor, counters and configuration after each batch
+  checkpoint?: boolean;
+  // Continue a previous run from its last checkpoint instead of starting over
+  resumeFrom?: MigrationCheckpoint;
+  // Caps on the load the snapshot puts on the source; see updateRateLimits()
+  rateLimits?: RateLimitOptions;
+  // Handling of keys that already exist on the target, default 'overwrite'
+  onConflict?: ConflictPolicy;
+  // Hash field or JSON property holding the timestamp compared by 'newer-wins'
+  conflictTimestampField?: string;
+  // Collections with more elements than this are copied in chunks instead of
+  // one read, default 10000
+  bigKeyThreshold?: number;
+  // Elements read and written per chunk on the big-key path, default 1000
+  bigKeyChunkSize?: number;
+  // Path of an RDB file to import instead of reading a live source; the
+  // source connections are then never opened
+  rdbFile?: string;
+  // Path of a snapshot archive (see exportFile) to import, like rdbFile
+  archiveFile?: string;
+  // Replay the commands of an AOF into the target, like rdbFile
+  aofReplay?: AofReplayOptions;
+  // Background sweeps repairing target keys that drifted during real-time sync
+  reconcile?: ReconcileOptions;
+  // Path to write a gzipped snapshot archive of the source to instead of
+  // copying to a target, which is then never connected
+  exportFile?: string;
+}
+
+export interface ReconcileOptions {
+  intervalMs: number;          // Pause between the end of one sweep and the start of the next
+  compareContent?: boolean;    // Also compare a digest of each value, not only type, length and TTL
+}
+
+export interface ReconcileStats {
+  sweeps: number;
+  checked: number;             // Keys compared, failover reconciliations included
+  repaired: number;            // Keys re-copied to the target
+  lastSweepAt: string | null;
+  lastRepaired: number;        // Repairs made by the last sweep
+  lastExtraKeys: number;       // Target keys without a source key found by the last sweep, left in place
+}
+
+export interface BigKeyProgress {
+  key: string;
+  db: number;
+  type: string;
+  copied: number;              // Elements written to the target so far
+  total: number;               // Element count when the copy started
+}
+
+interface StreamPendingEntry {
+  id: string;
+  consumer: string;
+  idle: number;
+  deliveries: number;
+}
+
+// Key positions of a command as reported by COMMAND: first and last key
+// argument (negative counts from the end) and the step between keys
+interface CommandKeySpec {
+  first: number;
+  last: number;
+  step: number;
+  movable: boolean;            // Keys are found with COMMAND GETKEYS instead
+}
+
+// Position in a replicated or replayed command stream
+interface CommandStreamState {
+  db: DatabaseContext | undefined;     // Selected database, undefined when it is not migrated
+  transaction: Array<{ db: DatabaseContext; args: Buffer[] }> | null;  // Commands of an open MULTI
+}
+
+interface StreamGroupState {
+  name: string;
+  lastDeliveredId: string;
+  consumers: string[];
+  pending: StreamPendingEntry[];
+}
+
+// Where an RDB or archive key is written on the target
+interface RdbKeyTarget {
+  key: string;                 // UTF-8 source name, for filters and reports
+  targetKey: string;
+  name: RedisKey;              // Name written, the exact source bytes when the mapping leaves the key alone
+  expireAt: number;            // Target clock ms, 0 when the key never expires
+}
+
+// A key arriving over several archive records, built under a temporary key
+interface ChunkedKeyWrite extends RdbKeyTarget {
+  db: DatabaseContext;
+  tempKey: RedisKey;
+  size: number;                // Bytes written so far
+  stream: { lastId: string; groups: StreamGroupState[] } | null;  // Restored once every entry is in place
+}
+
+export interface MigrationPlan {
+  generatedAt: string;
+  totalKeys: number;
+  totalBytes: number;
+  byType: Record<string, { keys: number; bytes: number }>;
+  ttl: {
+    noExpiry: number;
+    underMinute: number;
+    underHour: number;
+    underDay: number;
+    overDay: number;
+  };
+  largestKeys: Array<{ key: string; db: number; type: string; bytes: number }>;
+  // Types the per-type transfer cannot copy; they only migrate with DUMP/RESTORE
+  unsupportedTypes: Record<string, number>;
+  memory: {
+    keys: number;              // MEMORY USAGE of the planned keys on the source
+    targetUsed: number;        // used_memory currently reported by the target
+    projected: number;         // targetUsed + keys
+  };
+  databases: Array<DatabaseMapping & { shard?: string; keys: number; bytes: number }>;
 }
 
 interface MigrationMetrics {
@@ -42,26 +266,64 @@ interface MigrationMetrics {
 
 export class RedisMigrator extends EventEmitter {
   private source: Redis;
-  private target: Redis;
+  private target: RedisClient;
+  private sourceConfig: RedisConfig;
+  private targetConfig: RedisConfig;
   private options: MigratorOptions;
   private migrationId: string;
   private stats: MigrationStats = {
     processed: 0,
+    skipped: 0,
     total: 0,
     errors: [],
     startTime: Date.now(),
     keysPerSecond: 0,
-    totalSize: 0
+    totalSize: 0,
+    conflicts: 0
   };
   private isRunning = false;
   private initialScanRunning = false;
   private realtimeSyncEnabled = false;
   private subscriber: Redis | null = null;
-  private keyUpdateQueue = new Set<string>();
-  private processingQueue = false;
-  private scanCursor = '0';
+  private databases: DatabaseContext[];
+  private keyFilter: KeyFilter | null;
+  private keyMapper: KeyMapper | null;
+  // Real-time changes and reconciliation repairs, applied in order per key
+  private changeQueue: KeyChangeQueue<{ db: DatabaseContext; key: string; repair?: boolean }>;
   private lastMetricLog = 0;
   private readonly METRIC_LOG_INTERVAL = 5000;
+  private targetRdbVersion: number | null = null;
+  private tempKeyCounter = 0;
+  // Server clock minus local clock in ms, measured when the migration starts
+  private clockOffsets = { source: 0, target: 0 };
+  private sourceHasPexpiretime = false;
+  // Large keys currently being copied in chunks, by `${db}:${key}`
+  private bigKeys = new Map<string, BigKeyProgress>();
+  private crossSlotWarnings = 0;
+  private readonly MAX_CROSS_SLOT_WARNINGS = 100;
+  private processedAtStart = 0;
+  private rateLimiter: RateLimiter;
+  private latencyMonitor: NodeJS.Timeout | null = null;
+  private readonly LATENCY_PROBE_INTERVAL = 1000;
+  private conflictLog: ConflictRecord[] = [];
+  private readonly MAX_REPORTED_CONFLICTS = 1000;
+  private failoverRecovery: Promise<void> | null = null;
+  private failoverPending = false;
+  private replication: ReplicationClient | null = null;
+  private commandKeySpecs = new Map<string, CommandKeySpec>();
+  // Variadic commands whose keys are independent, with the arguments per
+  // key, so they can be narrowed down to the migrated keys
+  private readonly SPLITTABLE_COMMANDS: Record<string, number> = { del: 1, unlink: 1, touch: 1, mset: 2 };
+  private readonly REPLICATION_RETRY_LIMIT = 5;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private reconcileStats: ReconcileStats = {
+    sweeps: 0,
+    checked: 0,
+    repaired: 0,
+    lastSweepAt: null,
+    lastRepaired: 0,
+    lastExtraKeys: 0,
+  };
 
   constructor(
     sourceConfig: RedisConfig,
@@ -71,435 +333,2971 @@ export class RedisMigrator extends EventEmitter {
   ) {
     super();
 
-    this.source = new Redis({
-      host: sourceConfig.host,
-      port: sourceConfig.port,
-      password: sourceConfig.password,
-      tls: sourceConfig.tls ? {} : undefined,
-      retryStrategy: () => null, // Disable auto-retry
-      maxRetriesPerRequest: 1,
-    });
-    
-    this.target = new Redis({
-      host: targetConfig.host,
-      port: targetConfig.port,
-      password: targetConfig.password,
-      tls: targetConfig.tls ? {} : undefined,
-      retryStrategy: () => null, // Disable auto-retry
-      maxRetriesPerRequest: 1,
-    });
+    this.sourceConfig = sourceConfig;
+    this.targetConfig = targetConfig;
+    this.options = options;
+    this.migrationId = migrationId;
+
+    // Every check that can throw runs before any connection is opened
+    for (const [label, config] of [['Source', sourceConfig], ['Target', targetConfig]] as const) {
+      if (config.sentinels?.length && !config.masterName) {
+        throw new Error(`${label} Redis: masterName is required when sentinels are given`);
+      }
+      if (config.sentinels?.length && config.cluster) {
+        throw new Error(`${label} Redis: sentinels cannot be combined with cluster mode`);
+      }
+    }
+
+    if (options.changeCapture === 'replication') {
+      if (sourceConfig.cluster || sourceConfig.sentinels?.length) {
+        throw new Error('Replication change capture needs a direct connection to a standalone source');
+      }
+      if (options.resumeFrom) {
+        throw new Error('Migrations using replication change capture cannot be resumed; start a new one');
+      }
+    }
+
+    if (this.isOneShot() && (options.changeCapture === 'replication' || options.resumeFrom)) {
+      throw new Error('File imports and exports cannot use replication change capture or be resumed');
+    }
+    if ([options.rdbFile, options.archiveFile, options.aofReplay, options.exportFile].filter(Boolean).length > 1) {
+      throw new Error('Only one of rdbFile, archiveFile, aofReplay and exportFile can be given');
+    }
+
+    if (sourceConfig.cluster && options.databases?.length) {
+      throw new Error('Database mappings are not supported for cluster sources, which only have db 0');
+    }
+
+    const mappings = options.databases?.length
+      ? options.databases
+      : [{ source: sourceConfig.db ?? 0, target: targetConfig.db ?? 0 }];
+    if (targetConfig.cluster && mappings.some((mapping) => mapping.target !== 0)) {
+      throw new Error('A cluster target only has db 0');
+    }
+
+    this.keyFilter = KeyFilter.create(options.keyFilter);
+    this.keyMapper = KeyMapper.create(options.keyMapping);
+    this.rateLimiter = new RateLimiter(options.rateLimits);
+    this.changeQueue = new KeyChangeQueue(
+      ({ db, key, repair }, action) => this.applyKeyspaceChange(db, key, action, repair),
+      options.realtimeConcurrency,
+      mergeRepairs
+    );
+
+    this.source = this.createClient(sourceConfig, sourceConfig.db ?? 0, 'Source Redis', this.importsFile());
+    this.target = this.createTargetClient(targetConfig, targetConfig.db ?? 0, 'Target Redis', !!options.exportFile);
+    this.databases = mappings.map((mapping) => this.createDatabaseContext(mapping));
+  }
+
+  private createDatabaseContext(mapping: DatabaseMapping, shard?: ClusterShard): DatabaseContext {
+    const sourceConfig = shard
+      ? { ...this.sourceConfig, host: shard.host, port: shard.port, path: undefined }
+      : this.sourceConfig;
+    const sourceLabel = shard ? `${shard.host}:${shard.port}` : `db ${mapping.source}`;
+
+    return {
+      mapping,
+      source: this.createClient(sourceConfig, mapping.source, `Source Redis (${sourceLabel})`, this.importsFile()),
+      target: this.createTargetClient(
+        this.targetConfig, mapping.target, `Target Redis (db ${mapping.target})`, !!this.options.exportFile
+      ),
+      scanCursor: '0',
+      progress: {
+        ...mapping,
+        shard: shard && `${shard.host}:${shard.port}`,
+        processed: 0,
+        skipped: 0,
+        total: 0,
+        scanComplete: false,
+      },
+      conflicts: new Map<string, ConflictResolution | null>(),
+      shard,
+    };
+  }
+
+  /**
+   * For cluster sources, replaces the database contexts with one context per
+   * master, so every shard is scanned and subscribed to on its own node.
+   */
+  private async discoverShards(): Promise<void> {
+    if (!this.sourceConfig.cluster || this.importsFile() || this.databases.some((db) => db.shard)) {
+      return;
+    }
+
+    const shards = await discoverClusterMasters(this.source, this.sourceConfig.tls);
+    if (shards.length === 0) {
+      throw new Error('Source Redis: no cluster masters with assigned slots found');
+    }
+
+    const [{ mapping }] = this.databases;
+    await Promise.all(this.databases.map((db) => Promise.all([db.source.quit(), db.target.quit()])));
+    this.databases = shards.map((shard) => this.createDatabaseContext(mapping, shard));
+  }
+
+  /**
+   * Connects to a single instance. A `lazy` client only connects on its first
+   * command, which lets file imports and exports keep an unused side closed.
+   * Sentinel connections reconcile after a failover.
+   */
+  private createClient(config: RedisConfig, db: number, label: string, lazy = false): Redis {
+    const client = createNodeClient(config, db, { lazy, onFailover: () => this.onFailover(label) });
+    this.reportErrors(client, label);
+    return client;
+  }
+
+  /**
+   * Connects to the target, as a cluster client when the target is a
+   * cluster.
+   */
+  private createTargetClient(config: RedisConfig, db: number, label: string, lazy = false): RedisClient {
+    if (!config.cluster) {
+      return this.createClient(config, db, label, lazy);
+    }
+
+    const client = createClusterClient(config, { lazy });
+    this.reportErrors(client, label);
+    return client;
+  }
+
+  private reportErrors(client: RedisClient, label: string): void {
+    client.on('error', (err) => {
+      console.error(`${label} error:`, err);
+      this.emit('error', new Error(`${label} error: ${err.message}`));
+    });
+  }
+
+  /**
+   * Whether keys come from an RDB file, snapshot archive or AOF instead of
+   * the source.
+   */
+  private importsFile(): boolean {
+    return Boolean(this.options.rdbFile || this.options.archiveFile || this.options.aofReplay);
+  }
+
+  /**
+   * File imports and exports end after one pass; live migrations keep syncing.
+   */
+  private isOneShot(): boolean {
+    return this.importsFile() || Boolean(this.options.exportFile);
+  }
+
+  private getDatabase(sourceDb: number): DatabaseContext | undefined {
+    return this.databases.find((db) => db.mapping.source === sourceDb);
+  }
+
+  /**
+   * Copies one key's current state to the target. Callers decide whether it
+   * counts as a processed key.
+   */
+  private async migrateKey(db: DatabaseContext, key: string): Promise<void> {
+    try {
+      const targetKey = this.mapKey(key);
+      if (targetKey === null) {
+        return;
+      }
+
+      // Check if key exists in source
+      const exists = await db.source.exists(key);
+      if (!exists) {
+        // Key was deleted, delete from target
+        if (this.ownsTargetKey(db, targetKey)) {
+          await db.target.del(targetKey);
+        }
+        return;
+      }
+
+      if (!await this.resolveConflict(db, key, targetKey)) {
+        return;
+      }
+
+      let keySize: number | null = null;
+      const bigKeyType = await this.readBigKeyType(db, key);
+      if (bigKeyType) {
+        const expireAt = await this.readExpireAt(db, key);
+        if (expireAt === null || this.isExpired(expireAt)) {
+          return;
+        }
+        keySize = await this.migrateBigKey(db, key, targetKey, bigKeyType, expireAt);
+      } else if (!await this.migrateKeyWithDump(db, key, targetKey)) {
+        const expireAt = await this.readExpireAt(db, key);
+        const keyType = expireAt === null || this.isExpired(expireAt) ? 'none' : await db.source.type(key);
+
+        const write = await this.readKeyWrite(db, key, targetKey, keyType, expireAt || 0);
+        if (write === 'missing') {
+          // Deleted or expired while being read; the keyspace event for that follows
+          return;
+        }
+        if (write === 'unsupported') {
+          throw new Error(`Unsupported key type: ${keyType}`);
+        }
+        const transaction = db.target.multi();
+        write(transaction);
+        await execOrThrow(transaction);
+      }
+
+      this.updateSpeed();
+      
+      if (keySize === null) {
+        keySize = await this.calculateTotalSize(db, key);
+      }
+      this.stats.totalSize = (this.stats.totalSize || 0) + keySize;
+
+      await this.logMetrics();
+
+      this.emitProgress();
+    } catch (error: unknown) {
+      const redisError = error as RedisError;
+      const errorMessage = redisError?.message || `Unknown error migrating key ${key}`;
+      throw new Error(`Migration failed for key ${key}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Copies a key with DUMP/RESTORE REPLACE ABSTTL. Returns false when
+   * dump transfer is disabled or the payload's RDB version does not match the
+   * target, in which case the caller falls back to the per-type commands.
+   */
+  private async migrateKeyWithDump(db: DatabaseContext, key: string, targetKey: string): Promise<boolean> {
+    const dumped = await this.dumpKey(db, key);
+    if (!dumped) {
+      return false;
+    }
+
+    if (dumped.payload === null || this.isExpired(dumped.expireAt)) {
+      // Key disappeared between the existence check and the dump
+      if (this.ownsTargetKey(db, targetKey)) {
+        await db.target.del(targetKey);
+      }
+      return true;
+    }
+
+    await db.target.restore(targetKey, dumped.expireAt, dumped.payload, 'REPLACE', 'ABSTTL');
+    return true;
+  }
+
+  /**
+   * Reads a key's serialized value and absolute expiry from the source.
+   * Returns null when the key has to go through the per-type path instead.
+   */
+  private async dumpKey(db: DatabaseContext, key: string): Promise<{ payload: Buffer | null; expireAt: number } | null> {
+    if (this.targetRdbVersion === null) {
+      return null;
+    }
+
+    const [payload, expireAt] = await Promise.all([
+      db.source.dumpBuffer(key),
+      this.readExpireAt(db, key),
+    ]);
+
+    if (payload && readRdbVersion(payload) !== this.targetRdbVersion) {
+      return null;
+    }
+
+    return {
+      payload: expireAt === null ? null : payload || null,
+      // RESTORE ... ABSTTL expects a unix time in milliseconds, 0 means no expiry
+      expireAt: expireAt || 0,
+    };
+  }
+
+  /**
+   * Absolute expiry of a source key in target clock milliseconds: 0 when the
+   * key does not expire, null when it no longer exists. Uses PEXPIRETIME where
+   * the source supports it, otherwise PTTL taken at the midpoint of the round
+   * trip, so the error is bounded by half the latency instead of the whole copy.
+   */
+  private async readExpireAt(db: DatabaseContext, key: RedisKey): Promise<number | null> {
+    if (this.sourceHasPexpiretime) {
+      const expireTime = await db.source.pexpiretime(key);
+      if (expireTime === -2) return null;
+      if (expireTime === -1) return 0;
+      return Math.round(expireTime - this.clockOffsets.source + this.clockOffsets.target);
+    }
+
+    const before = Date.now();
+    const pttl = await db.source.pttl(key);
+    const after = Date.now();
+    if (pttl === -2) return null;
+    if (pttl === -1) return 0;
+    return Math.round((before + after) / 2 + pttl + this.clockOffsets.target);
+  }
+
+  private isExpired(expireAt: number): boolean {
+    return expireAt > 0 && expireAt <= Date.now() + this.clockOffsets.target;
+  }
+
+  /**
+   * Measures how far the source and target clocks are from ours, so absolute
+   * expiry times can be translated between them, and checks whether the
+   * source has PEXPIRETIME (Redis 7.0+).
+   */
+  private async syncClocks(): Promise<void> {
+    const measure = async (redis: RedisClient) => {
+      const before = Date.now();
+      const [seconds, microseconds] = await redis.time();
+      const after = Date.now();
+      return Number(seconds) * 1000 + Number(microseconds) / 1000 - (before + after) / 2;
+    };
+
+    // The side a file stands in for keeps our clock: expiry times in the
+    // file are read, and exported ones written, as if taken by it
+    const [source, target] = await Promise.all([
+      this.importsFile() ? 0 : measure(this.source),
+      this.options.exportFile ? 0 : measure(this.target),
+    ]);
+    this.clockOffsets = { source, target };
+    if (this.importsFile()) {
+      return;
+    }
+
+    try {
+      await this.source.pexpiretime(`__redis-migrator:clock-probe:${this.migrationId}`);
+      this.sourceHasPexpiretime = true;
+    } catch {
+      this.sourceHasPexpiretime = false;
+    }
+  }
+
+  /**
+   * Decides whether DUMP/RESTORE can be used by reading the RDB version the
+   * target writes, from a short-lived probe key. The source is never written
+   * to; its version is checked on every dumped payload instead.
+   */
+  private async resolveTransferMode(): Promise<void> {
+    this.targetRdbVersion = null;
+    if (this.options.transferMode === 'native') {
+      return;
+    }
+
+    const probeKey = `__redis-migrator:rdb-probe:${this.migrationId}`;
+    try {
+      await this.target.set(probeKey, '1', 'PX', 60000);
+      const payload = await this.target.dumpBuffer(probeKey);
+      this.targetRdbVersion = payload ? readRdbVersion(payload) : null;
+    } catch (error) {
+      console.warn('DUMP/RESTORE unavailable on target, using per-type transfer:', error);
+    } finally {
+      await this.target.del(probeKey).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Reads a full copy of a stream: entries with their original IDs, the
+   * stream's last generated ID, and every consumer group with its consumers,
+   * last-delivered ID and pending-entry list.
+   */
+  private async readStreamWrite(
+    db: DatabaseContext,
+    key: string,
+    targetKey: string,
+    expireAt: number
+  ): Promise<KeyWrite> {
+    const [entries, lastGeneratedId, groups] = await Promise.all([
+      this.readStreamEntries(db, key),
+      this.readStreamLastId(db, key),
+      this.readStreamGroups(db, key),
+    ]);
+
+    return (pipeline) => this.queueAtomicReplace(pipeline, targetKey, expireAt, (tempKey) => this.queueStreamContent(
+      pipeline, tempKey, entries, lastGeneratedId, groups
+    ));
+  }
+
+  /**
+   * Queues the writes recreating a stream's entries, last ID and consumer
+   * groups under `streamKey`.
+   */
+  private queueStreamContent(
+    pipeline: ChainableCommander,
+    streamKey: RedisKey,
+    entries: Array<[string, Array<string | Buffer>]>,
+    lastGeneratedId: string,
+    groups: StreamGroupState[]
+  ): void {
+    if (entries.length > 0) {
+      for (const [id, fields] of entries) {
+        pipeline.xadd(streamKey, id, ...fields);
+      }
+    } else {
+      // XADD with MAXLEN 0 is the only way to create an empty stream
+      pipeline.xadd(streamKey, 'MAXLEN', '0', lastGeneratedId === '0-0' ? '0-1' : lastGeneratedId, '_', '');
+    }
+    this.queueStreamMetadata(pipeline, streamKey, lastGeneratedId, groups);
+  }
+
+  /**
+   * Queues the writes restoring a stream's last generated ID and its consumer
+   * groups, once its entries are in place.
+   */
+  private queueStreamMetadata(
+    pipeline: ChainableCommander,
+    streamKey: RedisKey,
+    lastGeneratedId: string,
+    groups: StreamGroupState[]
+  ): void {
+    if (lastGeneratedId !== '0-0') {
+      pipeline.xsetid(streamKey, lastGeneratedId);
+    }
+
+    for (const group of groups) {
+      pipeline.xgroup('CREATE', streamKey, group.name, group.lastDeliveredId);
+      for (const consumer of group.consumers) {
+        pipeline.xgroup('CREATECONSUMER', streamKey, group.name, consumer);
+      }
+      // XCLAIM ... FORCE recreates the PEL entry with its owner, idle time and delivery count
+      for (const entry of group.pending) {
+        pipeline.xclaim(
+          streamKey, group.name, entry.consumer, 0, entry.id,
+          'IDLE', entry.idle, 'RETRYCOUNT', entry.deliveries, 'FORCE', 'JUSTID'
+        );
+      }
+    }
+  }
+
+  /**
+   * Copies only the entries appended to a stream since the last entry already
+   * on the target, falling back to a full copy when the target has none.
+   */
+  private async syncStreamAppend(db: DatabaseContext, key: string): Promise<void> {
+    const targetKey = this.mapKey(key);
+    if (targetKey === null) {
+      return;
+    }
+
+    // Streams that were on the target before this run go through the conflict policy first
+    const [lastEntry] = !db.conflicts.has(targetKey)
+      ? await db.target.xrevrange(targetKey, '+', '-', 'COUNT', 1)
+      : [];
+    if (!lastEntry) {
+      await this.migrateKey(db, key);
+      return;
+    }
+
+    const entries = await this.readStreamEntries(db, key, `(${lastEntry[0]}`);
+    if (entries.length === 0) {
+      return;
+    }
+
+    const pipeline = db.target.pipeline();
+    for (const [id, fields] of entries) {
+      pipeline.xadd(targetKey, id, ...fields);
+    }
+    await execOrThrow(pipeline);
+  }
+
+  private async readStreamLastId(db: DatabaseContext, key: RedisKey): Promise<string> {
+    const info = toRecord(await db.source.xinfo('STREAM', key) as unknown[]);
+    return String(info['last-generated-id'] ?? '0-0');
+  }
+
+  private async readStreamGroups(db: DatabaseContext, key: RedisKey): Promise<StreamGroupState[]> {
+    const PENDING_PAGE_SIZE = 1000;
+    const groups = await db.source.xinfo('GROUPS', key) as unknown[][];
+
+    return Promise.all(groups.map(async (raw) => {
+      const group = toRecord(raw);
+      const name = String(group.name);
+
+      const consumers = await db.source.xinfo('CONSUMERS', key, name) as unknown[][];
+
+      const pending: StreamPendingEntry[] = [];
+      let start = '-';
+      while (true) {
+        const page = await db.source.xpending(key, name, start, '+', PENDING_PAGE_SIZE) as
+          Array<[string, string, number, number]>;
+        for (const [id, consumer, idle, deliveries] of page) {
+          pending.push({ id, consumer, idle, deliveries });
+        }
+        if (page.length < PENDING_PAGE_SIZE) {
+          break;
+        }
+        start = `(${page[page.length - 1][0]}`;
+      }
+
+      return {
+        name,
+        lastDeliveredId: String(group['last-delivered-id']),
+        consumers: consumers.map((consumer) => String(toRecord(consumer).name)),
+        pending,
+      };
+    }));
+  }
+
+  /**
+   * Reads a key from the source and returns the commands replacing it on the
+   * target, which queue synchronously so they stay together in a shared
+   * pipeline. Returns 'missing' when the key disappeared before it could be
+   * read and 'unsupported' when its type cannot be copied.
+   */
+  private async readKeyWrite(
+    db: DatabaseContext,
+    key: string,
+    targetKey: string,
+    keyType: string,
+    expireAt: number
+  ): Promise<KeyWrite> {
+    switch (keyType) {
+      case 'string': {
+        const value = await db.source.get(key);
+        if (value === null) {
+          return 'missing';
+        }
+        if (expireAt > 0) {
+          return (pipeline) => this.queueAtomicReplace(pipeline, targetKey, expireAt, (tempKey) => pipeline.set(tempKey, value));
+        }
+        // SET alone replaces the value and clears any expiry on the target
+        return (pipeline) => pipeline.set(targetKey, value);
+      }
+      case 'hash': {
+        const hash = await db.source.hgetall(key);
+        if (Object.keys(hash).length === 0) {
+          return 'missing';
+        }
+        return (pipeline) => this.queueAtomicReplace(pipeline, targetKey, expireAt, (tempKey) => pipeline.hmset(tempKey, hash));
+      }
+      case 'set': {
+        const members = await db.source.smembers(key);
+        if (members.length === 0) {
+          return 'missing';
+        }
+        return (pipeline) => this.queueAtomicReplace(pipeline, targetKey, expireAt, (tempKey) => pipeline.sadd(tempKey, ...members));
+      }
+      case 'zset': {
+        const members = await db.source.zrange(key, 0, -1, 'WITHSCORES');
+        if (members.length === 0) {
+          return 'missing';
+        }
+        const args: string[] = [];
+        for (let i = 0; i < members.length; i += 2) {
+          args.push(members[i + 1], members[i]);
+        }
+        return (pipeline) => this.queueAtomicReplace(pipeline, targetKey, expireAt, (tempKey) => pipeline.zadd(tempKey, ...args));
+      }
+      case 'list': {
+        const items = await db.source.lrange(key, 0, -1);
+        if (items.length === 0) {
+          return 'missing';
+        }
+        return (pipeline) => this.queueAtomicReplace(pipeline, targetKey, expireAt, (tempKey) => pipeline.rpush(tempKey, ...items));
+      }
+      case 'stream':
+        return this.readStreamWrite(db, key, targetKey, expireAt);
+      case 'none':
+        return 'missing';
+      default:
+        return 'unsupported';
+    }
+  }
+
+  /**
+   * Builds a value under a temporary key and RENAMEs it over the target key.
+   * RENAME is atomic and carries the expiry set on the temporary key, so
+   * readers see the old or the new value, never an empty, half-merged or
+   * not-yet-expiring one, even when the pipeline is not a transaction.
+   * Members removed on the source do not survive on the target either.
+   */
+  private queueAtomicReplace(
+    pipeline: ChainableCommander,
+    targetKey: RedisKey,
+    expireAt: number,
+    write: (tempKey: RedisKey) => void
+  ): void {
+    const tempKey = this.tempKeyFor(targetKey);
+    if (tempKey === null) {
+      // Without a co-located temporary key the value is replaced in place
+      pipeline.del(targetKey);
+      write(targetKey);
+      if (expireAt > 0) {
+        pipeline.pexpireat(targetKey, expireAt);
+      }
+      return;
+    }
+
+    pipeline.del(tempKey);
+    write(tempKey);
+    if (expireAt > 0) {
+      pipeline.pexpireat(tempKey, expireAt);
+    }
+    pipeline.rename(tempKey, targetKey);
+  }
+
+  /**
+   * Unique temporary key for one write of `targetKey`. It carries the target
+   * key's hash tag so both keys live in the same cluster slot. Returns null,
+   * with a cross-slot warning, when a cluster target cannot hash the two
+   * keys to the same slot, which happens for keys with an unbalanced `{`/`}`.
+   */
+  private tempKeyFor(targetKey: RedisKey): RedisKey | null {
+    this.tempKeyCounter = (this.tempKeyCounter + 1) % Number.MAX_SAFE_INTEGER;
+    const prefix = `__redis-migrator:tmp:${this.migrationId}:${this.tempKeyCounter}:{`;
+    const tempKey = typeof targetKey === 'string'
+      ? `${prefix}${hashTag(targetKey) ?? targetKey}}`
+      : Buffer.concat([Buffer.from(prefix), hashTag(targetKey) ?? targetKey, Buffer.from('}')]);
+
+    if (this.targetConfig.cluster && keySlot(tempKey) !== keySlot(targetKey)) {
+      this.warnCrossSlot(String(targetKey));
+      return null;
+    }
+    return tempKey;
+  }
+
+  private warnCrossSlot(targetKey: string): void {
+    this.crossSlotWarnings++;
+    if (this.crossSlotWarnings <= this.MAX_CROSS_SLOT_WARNINGS) {
+      this.emit('warning', `Key ${targetKey} cannot share a cluster slot with a temporary key, `
+        + 'so it is replaced in place rather than atomically. Add a hash tag such as {...} to keep replacements atomic.');
+    }
+  }
+
+  /**
+   * Splits keys into groups sharing a hash slot on a cluster target, since a
+   * cluster pipeline can only address one node; a single group otherwise.
+   */
+  private groupBySlot(keys: RedisKey[]): number[][] {
+    if (!this.targetConfig.cluster) {
+      return keys.length > 0 ? [keys.map((_, i) => i)] : [];
+    }
+
+    const groups = new Map<number, number[]>();
+    keys.forEach((key, i) => {
+      const slot = keySlot(key);
+      groups.set(slot, [...(groups.get(slot) || []), i]);
+    });
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Reads every entry of a stream in pages so that entry IDs can be replayed
+   * verbatim with XADD.
+   */
+  private async readStreamEntries(db: DatabaseContext, key: string, start = '-'): Promise<Array<[string, string[]]>> {
+    const entries: Array<[string, string[]]> = [];
+    await readStreamPages(db.source, key, start, 1000, async (page) => {
+      entries.push(...page);
+    });
+    return entries;
+  }
+
+  private isBigKey(length: number): boolean {
+    return length > (this.options.bigKeyThreshold ?? 10000);
+  }
+
+  /**
+   * Type of a key when it is large enough for the big-key path, otherwise null.
+   */
+  private async readBigKeyType(db: DatabaseContext, key: string): Promise<string | null> {
+    const keyType = await db.source.type(key);
+    return this.isBigKey(await collectionLength(db.source, key, keyType)) ? keyType : null;
+  }
+
+  /**
+   * Finds the keys of a batch that need the big-key path, with their types,
+   * using two pipelined round trips for the whole batch.
+   */
+  private async findBigKeys<K extends RedisKey>(db: DatabaseContext, keys: K[]): Promise<Map<K, string>> {
+    const bigKeys = new Map<K, string>();
+    if (keys.length === 0) {
+      return bigKeys;
+    }
+
+    const typePipeline = db.source.pipeline();
+    keys.forEach((key) => typePipeline.type(key));
+    const types = (await typePipeline.exec())?.map(([, type]) => String(type)) || [];
+
+    const lengthCommands: Record<string, 'hlen' | 'scard' | 'zcard' | 'llen' | 'xlen'> = {
+      hash: 'hlen', set: 'scard', zset: 'zcard', list: 'llen', stream: 'xlen',
+    };
+    const collections = keys
+      .map((key, i) => ({ key, type: types[i] }))
+      .filter(({ type }) => type in lengthCommands);
+    if (collections.length === 0) {
+      return bigKeys;
+    }
+
+    const lengthPipeline = db.source.pipeline();
+    collections.forEach(({ key, type }) => lengthPipeline[lengthCommands[type]](key));
+    const lengths = await lengthPipeline.exec();
+    collections.forEach(({ key, type }, i) => {
+      if (this.isBigKey(Number(lengths?.[i]?.[1]) || 0)) {
+        bigKeys.set(key, type);
+      }
+    });
+
+    return bigKeys;
+  }
+
+  /**
+   * Copies a large collection in bounded chunks into a temporary key, then
+   * applies the expiry and RENAMEs it over the target key, so neither the
+   * source nor this process handles the whole value at once. Reports
+   * per-element progress and returns the number of bytes copied.
+   */
+  private async migrateBigKey(
+    db: DatabaseContext,
+    key: string,
+    targetKey: string,
+    keyType: string,
+    expireAt: number
+  ): Promise<number> {
+    const chunkSize = this.options.bigKeyChunkSize ?? 1000;
+    const progressKey = `${db.mapping.source}:${key}`;
+    const progress: BigKeyProgress = {
+      key,
+      db: db.mapping.source,
+      type: keyType,
+      copied: 0,
+      total: await collectionLength(db.source, key, keyType),
+    };
+    const tempKey = this.tempKeyFor(targetKey) ?? targetKey;
+    let bytes = Buffer.byteLength(key);
+
+    const reportChunk = async (elements: number, chunkBytes: number) => {
+      progress.copied += elements;
+      bytes += chunkBytes;
+      await this.rateLimiter.consumeBytes(chunkBytes);
+      this.emit('bigKeyProgress', { ...progress });
+      this.emitProgress();
+    };
+
+    this.bigKeys.set(progressKey, progress);
+    try {
+      await db.target.del(tempKey);
+
+      if (keyType === 'stream') {
+        const [lastGeneratedId, groups] = await Promise.all([
+          this.readStreamLastId(db, key),
+          this.readStreamGroups(db, key),
+        ]);
+        await readStreamPages(db.source, key, '-', chunkSize, async (page) => {
+          const pipeline = db.target.pipeline();
+          page.forEach(([id, fields]) => pipeline.xadd(tempKey, id, ...fields));
+          await execOrThrow(pipeline);
+          await reportChunk(page.length, page.reduce((sum, [id, fields]) =>
+            sum + Buffer.byteLength(id) + byteLength(fields), 0));
+        });
+
+        const pipeline = db.target.pipeline();
+        this.queueStreamMetadata(pipeline, tempKey, lastGeneratedId, groups);
+        await execOrThrow(pipeline);
+      } else {
+        await readCollectionChunks(db.source, key, keyType, chunkSize, async (values) => {
+          switch (keyType) {
+            case 'hash':
+              await db.target.hset(tempKey, ...values);
+              break;
+            case 'set':
+              await db.target.sadd(tempKey, ...values);
+              break;
+            case 'zset': {
+              // ZSCAN returns member/score pairs, ZADD takes score/member
+              const args: string[] = [];
+              for (let i = 0; i < values.length; i += 2) {
+                args.push(values[i + 1], values[i]);
+              }
+              await db.target.zadd(tempKey, ...args);
+              break;
+            }
+            case 'list':
+              await db.target.rpush(tempKey, ...values);
+              break;
+          }
+          const pairs = keyType === 'hash' || keyType === 'zset';
+          await reportChunk(pairs ? values.length / 2 : values.length, byteLength(values));
+        });
+      }
+
+      const pipeline = db.target.multi();
+      if (expireAt > 0) {
+        pipeline.pexpireat(tempKey, expireAt);
+      }
+      if (tempKey !== targetKey) {
+        pipeline.rename(tempKey, targetKey);
+      }
+      await execOrThrow(pipeline);
+    } catch (error) {
+      await db.target.del(tempKey).catch(() => undefined);
+      throw error;
+    } finally {
+      this.bigKeys.delete(progressKey);
+    }
+
+    return bytes;
+  }
+
+  private countProcessed(db: DatabaseContext): void {
+    this.stats.processed++;
+    db.progress.processed++;
+  }
+
+  private skipKey(db: DatabaseContext, key: string, reason: string): void {
+    this.stats.skipped++;
+    db.progress.skipped++;
+    this.emit('keySkipped', { key, db: db.mapping.source, reason });
+  }
+
+  private emitProgress(percent?: number): void {
+    this.emit('progress', {
+      processed: this.stats.processed,
+      skipped: this.stats.skipped,
+      total: this.stats.total,
+      percent: percent ?? Math.min((this.stats.processed / this.stats.total) * 100, 100),
+      keysPerSecond: this.stats.keysPerSecond,
+      totalSize: this.stats.totalSize,
+      conflicts: this.stats.conflicts,
+      bigKeys: Array.from(this.bigKeys.values(), (progress) => ({ ...progress })),
+      reconciliation: { ...this.reconcileStats },
+      databases: this.databases.map((db) => ({ ...db.progress })),
+      throttle: this.rateLimiter.getState(),
+    });
+  }
+
+  private updateSpeed(): void {
+    const elapsed = (Date.now() - this.stats.startTime) / 1000;
+    this.stats.keysPerSecond = Math.round((this.stats.processed - this.processedAtStart) / elapsed);
+  }
+
+  public async start(): Promise<void> {
+    if (this.initialScanRunning) {
+      throw new Error('Initial migration already in progress');
+    }
+
+    try {
+      // Validate connections before starting
+      await this.validateConnections();
+      
+      await this.discoverShards();
+
+      // Initialize subscriber after validation
+      if (!this.isOneShot()) {
+        await this.initializeSubscriber();
+      }
+      
+      this.initialScanRunning = true;
+      this.isRunning = true;
+      this.stats.startTime = Date.now();
+      this.stats.processed = 0;
+      this.stats.skipped = 0;
+      this.stats.totalSize = 0;
+      this.stats.conflicts = 0;
+      this.stats.errors = [];
+      this.conflictLog = [];
+      for (const db of this.databases) {
+        db.scanCursor = '0';
+        db.progress = { ...db.progress, processed: 0, skipped: 0, total: 0, scanComplete: false };
+      }
+      if (this.options.resumeFrom) {
+        this.restoreCheckpoint(this.options.resumeFrom);
+      }
+      this.processedAtStart = this.stats.processed;
+
+      try {
+        await this.syncClocks();
+        if (!this.options.exportFile) {
+          await this.loadExistingTargetKeys();
+        }
+        if (this.options.rdbFile) {
+          await this.importRdbFile(this.options.rdbFile);
+        } else if (this.options.archiveFile) {
+          await this.importArchive(this.options.archiveFile);
+        } else if (this.options.aofReplay) {
+          await this.replayAof(this.options.aofReplay);
+        } else if (this.options.exportFile) {
+          await this.exportSnapshot(this.options.exportFile);
+        } else if (this.options.changeCapture === 'replication') {
+          await this.startReplication();
+        } else {
+          await this.runSnapshot();
+        }
+
+        this.initialScanRunning = false;
+        if (this.databases.every((db) => db.progress.scanComplete)) {
+          await this.saveCheckpoint('completed');
+        }
+        this.emit('scanComplete');
+
+        // Keep real-time sync running after initial scan completes
+        if (this.isRunning) {
+          this.emitProgress(100);
+          this.scheduleReconciliation();
+        }
+
+        // A file import or export has nothing to follow afterwards
+        if (this.isOneShot() && this.isRunning) {
+          this.isRunning = false;
+          this.emit('completed', this.getStats());
+          await this.cleanup();
+        }
+      } catch (error: unknown) {
+        const redisError = error as RedisError;
+        const errorMessage = redisError?.message || 'Unknown error during migration';
+        this.stats.errors.push(`Migration failed: ${errorMessage}`);
+        await this.saveCheckpoint('failed');
+        this.emit('error', redisError);
+        throw redisError;
+      }
+    } catch (error) {
+      await this.cleanup();
+      throw error;
+    }
+  }
+
+  /**
+   * Keyspace-notification change capture: subscribes first, then SCANs every
+   * database, so writes made during the scan are not missed.
+   */
+  private async runSnapshot(): Promise<void> {
+    await this.resolveTransferMode();
+
+    // Enable real-time sync before starting the initial scan
+    await this.enableRealtimeSync();
+
+    await this.refreshTotals();
+
+    this.startLatencyMonitor();
+    try {
+      for (const db of this.databases) {
+        if (!this.initialScanRunning || !this.isRunning) {
+          break;
+        }
+        if (!db.progress.scanComplete) {
+          await this.scanDatabase(db);
+        }
+      }
+    } finally {
+      this.stopLatencyMonitor();
+    }
+  }
+
+  /**
+   * Runs the snapshot SCAN over a single source database, writing into its
+   * mapped target database.
+   */
+  private async scanDatabase(db: DatabaseContext): Promise<void> {
+    // Increase batch size for better performance
+    const PIPELINE_BATCH_SIZE = 5000;
+    // Once a batch has failed keys the checkpoint stays before it, so a
+    // resumed migration copies them again
+    let failedBatch = false;
+
+    const complete = await this.scanSource(
+      db,
+      db.scanCursor,
+      PIPELINE_BATCH_SIZE,
+      () => this.initialScanRunning && this.isRunning,
+      async (keys, cursor) => {
+        // Process keys in smaller chunks to avoid memory issues
+        const chunkSize = 1000;
+        let failed = 0;
+        for (let i = 0; i < keys.length; i += chunkSize) {
+          failed += await this.migrateBatch(db, keys.slice(i, i + chunkSize));
+
+          // Update metrics less frequently
+          if (this.stats.processed % 1000 === 0) {
+            await this.logMetrics();
+            this.updateSpeed();
+            this.emitProgress();
+          }
+        }
+
+        if (failed > 0 && !failedBatch) {
+          failedBatch = true;
+          this.emit('warning', `${failed} keys of db ${db.mapping.source} failed to copy; the checkpoint will not move past them`);
+        }
+
+        // Only advance the checkpointed cursor once the whole batch is on the target
+        if (!failedBatch) {
+          db.scanCursor = cursor;
+          if (this.isRunning) {
+            await this.saveCheckpoint('running');
+          }
+        }
+      }
+    );
+
+    if (complete) {
+      db.progress.scanComplete = true;
+    }
+  }
+
+  /**
+   * Drives a SCAN over one source database from `cursor`, handing every batch
+   * of keys accepted by the key filter to `onBatch` along with the cursor to
+   * continue from. Returns true once the whole keyspace has been visited.
+   * With `binary`, keys are handed over as Buffers and filtered by their
+   * UTF-8 name.
+   */
+  private scanSource(
+    db: DatabaseContext,
+    cursor: string,
+    batchSize: number,
+    shouldContinue: () => boolean,
+    onBatch: (keys: string[], nextCursor: string) => Promise<void>
+  ): Promise<boolean>;
+  private scanSource(
+    db: DatabaseContext,
+    cursor: string,
+    batchSize: number,
+    shouldContinue: () => boolean,
+    onBatch: (keys: Buffer[], nextCursor: string) => Promise<void>,
+    binary: true
+  ): Promise<boolean>;
+  private async scanSource(
+    db: DatabaseContext,
+    cursor: string,
+    batchSize: number,
+    shouldContinue: () => boolean,
+    onBatch: ((keys: string[], nextCursor: string) => Promise<void>)
+      | ((keys: Buffer[], nextCursor: string) => Promise<void>),
+    binary = false
+  ): Promise<boolean> {
+    const emit = onBatch as (keys: Array<string | Buffer>, nextCursor: string) => Promise<void>;
+    while (shouldContinue()) {
+      const [nextCursor, scannedKeys]: [string, Array<string | Buffer>] = binary
+        ? await this.scanKeys(db, cursor, batchSize, true)
+        : await this.scanKeys(db, cursor, batchSize);
+      await emit(scannedKeys.filter((key) => this.isKeyIncluded(key.toString())), nextCursor);
+
+      if (nextCursor === '0') {
+        return true;
+      }
+      cursor = nextCursor;
+    }
+    return false;
+  }
+
+  /**
+   * Copies a batch of keys through target pipelines, one per hash slot on a
+   * cluster target and a single one otherwise. Keys only count as migrated
+   * once their commands succeeded; returns the number of keys that failed.
+   */
+  private async migrateBatch(db: DatabaseContext, keys: string[]): Promise<number> {
+    // Use pipeline for better performance
+    const pipelines = this.createSlotPipelines(db);
+    const existing = await this.findExistingTargetKeys(
+      db,
+      keys.map((key) => this.mapKey(key)).filter((targetKey): targetKey is string => targetKey !== null)
+    );
+    const bigKeys = await this.findBigKeys(db, keys);
+    // Keys queued on the pipelines, with their size, until exec confirms them
+    const queued: Array<{ key: string; targetKey: string; size: number }> = [];
+    let failed = 0;
+
+    await Promise.all(
+      keys.map((key) => this.rateLimiter.run(async () => {
+        try {
+          const targetKey = this.mapKey(key);
+          if (targetKey === null) {
+            this.skipKey(db, key, 'Dropped by key mapping');
+            return;
+          }
+
+          if (!await this.resolveConflict(db, key, targetKey, existing.has(targetKey))) {
+            this.skipKey(db, key, 'Kept the existing target key (conflict)');
+            return;
+          }
+          const bigKeyType = bigKeys.get(key);
+          if (bigKeyType) {
+            const expireAt = await this.readExpireAt(db, key);
+            if (expireAt === null || this.isExpired(expireAt)) {
+              this.skipKey(db, key, expireAt === null ? 'Key no longer exists' : 'Key expired during migration');
+              return;
+            }
+            this.stats.totalSize += await this.migrateBigKey(db, key, targetKey, bigKeyType, expireAt);
+            this.countProcessed(db);
+            return;
+          }
+
+          const dumped = await this.dumpKey(db, key);
+          if (dumped) {
+            if (!dumped.payload) {
+              this.skipKey(db, key, 'Key no longer exists');
+              return;
+            }
+            if (this.isExpired(dumped.expireAt)) {
+              this.skipKey(db, key, 'Key expired during migration');
+              return;
+            }
+            const { payload } = dumped;
+            pipelines.queue(targetKey, (pipeline) => pipeline.restore(targetKey, dumped.expireAt, payload, 'REPLACE', 'ABSTTL'));
+            queued.push({ key, targetKey, size: payload.length + Buffer.byteLength(key) });
+            await this.rateLimiter.consumeBytes(payload.length);
+            return;
+          }
+
+          const expireAt = await this.readExpireAt(db, key);
+          if (expireAt === null) {
+            this.skipKey(db, key, 'Key no longer exists');
+            return;
+          }
+          if (this.isExpired(expireAt)) {
+            this.skipKey(db, key, 'Key expired during migration');
+            return;
+          }
+
+          const keyType = await db.source.type(key);
+          const write = await this.readKeyWrite(db, key, targetKey, keyType, expireAt);
+          if (typeof write !== 'function') {
+            this.skipKey(db, key, write === 'unsupported'
+              ? `Unsupported key type: ${keyType}`
+              : expireAt > 0 ? 'Key expired during migration' : 'Key no longer exists');
+            return;
+          }
+          pipelines.queue(targetKey, write);
+
+          const keySize = await this.calculateTotalSize(db, key);
+          queued.push({ key, targetKey, size: keySize });
+          await this.rateLimiter.consumeBytes(keySize);
+        } catch (error) {
+          if (error instanceof ConflictError) {
+            throw error;
+          }
+          // Reads of a key that expires or is deleted halfway can fail (e.g. XINFO)
+          if (await db.source.exists(key).catch(() => 1) === 0) {
+            this.skipKey(db, key, 'Key expired or was deleted during migration');
+            return;
+          }
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          this.stats.errors.push(`Error processing key ${key}: ${errorMessage}`);
+          failed++;
+        }
+      }))
+    );
+
+    // Execute pipelines
+    const writeErrors = await pipelines.exec();
+    for (const { key, targetKey, size } of queued) {
+      const writeError = writeErrors.get(targetKey);
+      if (writeError) {
+        this.stats.errors.push(`Error writing key ${key}: ${writeError.message}`);
+        failed++;
+        continue;
+      }
+      this.countProcessed(db);
+      this.stats.totalSize += size;
+    }
+    return failed;
+  }
+
+  /**
+   * Target pipelines for one batch: one per hash slot on a cluster target,
+   * since a cluster pipeline can only address one node, and a single one
+   * otherwise. The commands each target key queues are remembered, since
+   * exec() reports command errors in its results instead of throwing.
+   */
+  private createSlotPipelines(db: DatabaseContext) {
+    const pipelines = new Map<number, ChainableCommander>();
+    // Range of pipeline commands queued for each target key
+    const spans = new Map<ChainableCommander, Array<{ targetKey: string; start: number; end: number }>>();
+
+    return {
+      // `name` is the key as written, when its bytes differ from `targetKey`
+      queue: <T>(targetKey: string, write: (pipeline: ChainableCommander) => T, name: RedisKey = targetKey): T => {
+        const slot = this.targetConfig.cluster ? keySlot(name) : 0;
+        let pipeline = pipelines.get(slot);
+        if (!pipeline) {
+          pipeline = db.target.pipeline();
+          pipelines.set(slot, pipeline);
+          spans.set(pipeline, []);
+        }
+
+        const start = pipeline.length;
+        const result = write(pipeline);
+        spans.get(pipeline)!.push({ targetKey, start, end: pipeline.length });
+        return result;
+      },
+      /**
+       * Runs every pipeline and returns the first command error of each
+       * target key whose writes failed.
+       */
+      exec: async (): Promise<Map<string, Error>> => {
+        const failed = new Map<string, Error>();
+        await Promise.all(Array.from(spans.entries()).map(async ([pipeline, keySpans]) => {
+          const results = await pipeline.exec();
+          for (const { targetKey, start, end } of keySpans) {
+            const error = results
+              ? results.slice(start, end).find(([commandError]) => commandError)?.[0]
+              : new Error('Pipeline was discarded');
+            if (error) {
+              failed.set(targetKey, error);
+            }
+          }
+        }));
+        return failed;
+      },
+    };
+  }
+
+  /**
+   * Lists the keys already on the target before anything is written, which
+   * are the only keys the conflict policy applies to. Keys the key filter
+   * excludes are left out when no key mapping could rename a source key
+   * into them. Only the policies that keep target keys need the list; under
+   * 'overwrite' each batch checks its own keys (see findExistingTargetKeys).
+   */
+  private async loadExistingTargetKeys(): Promise<void> {
+    if ((this.options.onConflict ?? 'overwrite') === 'overwrite') {
+      return;
+    }
+
+    const byTarget = new Map<number, Map<string, ConflictResolution | null>>();
+    for (const db of this.databases) {
+      const shared = byTarget.get(db.mapping.target);
+      if (shared) {
+        db.conflicts = shared;
+        continue;
+      }
+
+      const conflicts = new Map<string, ConflictResolution | null>();
+      await this.scanTargetKeys(db, () => true, async (keys) => {
+        keys
+          .filter((key) => this.keyMapper || this.isKeyIncluded(key))
+          .forEach((key) => conflicts.set(key, null));
+      });
+      db.conflicts = conflicts;
+      byTarget.set(db.mapping.target, conflicts);
+    }
+  }
+
+  /**
+   * Under the 'overwrite' policy, which of a batch's target keys exist before
+   * the batch is written, so the keys it overwrites are reported. The other
+   * policies rely on the keys listed at start instead.
+   */
+  private async findExistingTargetKeys(db: DatabaseContext, names: RedisKey[]): Promise<Set<string>> {
+    const existing = new Set<string>();
+    if ((this.options.onConflict ?? 'overwrite') !== 'overwrite') {
+      return existing;
+    }
+
+    await Promise.all(this.groupBySlot(names).map(async (group) => {
+      const pipeline = db.target.pipeline();
+      group.forEach((i) => pipeline.exists(names[i]));
+      const results = await pipeline.exec();
+      group.forEach((i, j) => {
+        if (results?.[j]?.[1] === 1) {
+          existing.add(names[i].toString());
+        }
+      });
+    }));
+    return existing;
+  }
+
+  /**
+   * Applies the `onConflict` policy to a key about to be written. Returns
+   * false when the existing target key must be kept, and throws a
+   * ConflictError under the 'fail' policy. Only keys that were on the target
+   * before this run can conflict; keys other clients create on the target
+   * during the run are not told apart from its own. Under 'overwrite',
+   * `targetExists` comes from the batch being written, so real-time copies
+   * overwrite without a report.
+   */
+  private async resolveConflict(
+    db: DatabaseContext,
+    key: string,
+    targetKey: string,
+    targetExists = false
+  ): Promise<boolean> {
+    if (!targetExists && !db.conflicts.has(targetKey)) {
+      return true;
+    }
+
+    const policy = this.options.onConflict ?? 'overwrite';
+    let sourceTimestamp: number | null | undefined;
+    let targetTimestamp: number | null | undefined;
+    let resolution: ConflictResolution;
+
+    switch (policy) {
+      case 'skip':
+        resolution = 'skipped';
+        break;
+      case 'fail':
+        resolution = 'failed';
+        break;
+      case 'newer-wins': {
+        const field = this.options.conflictTimestampField || 'updatedAt';
+        [sourceTimestamp, targetTimestamp] = await Promise.all([
+          readConflictTimestamp(db.source, key, field),
+          readConflictTimestamp(db.target, targetKey, field),
+        ]);
+        // A target key without a timestamp cannot be newer than anything
+        resolution = targetTimestamp === null || (sourceTimestamp !== null && sourceTimestamp >= targetTimestamp)
+          ? 'source-newer'
+          : 'target-newer';
+        break;
+      }
+      default:
+        resolution = 'overwritten';
+    }
+
+    this.recordConflict(db, {
+      key,
+      targetKey,
+      db: db.mapping.source,
+      policy,
+      resolution,
+      sourceTimestamp,
+      targetTimestamp,
+      detectedAt: new Date().toISOString(),
+    });
+
+    if (resolution === 'failed') {
+      throw new ConflictError(key, targetKey);
+    }
+    if (keepsTargetKey(resolution)) {
+      return false;
+    }
+    // Overwritten from here on, so no longer a conflict
+    db.conflicts.delete(targetKey);
+    return true;
+  }
+
+  /**
+   * Counts and reports a conflict, once per target key unless its resolution
+   * changes (a 'newer-wins' key is re-evaluated on every real-time update).
+   */
+  private recordConflict(db: DatabaseContext, conflict: ConflictRecord): void {
+    if (db.conflicts.get(conflict.targetKey) === conflict.resolution) {
+      return;
+    }
+    db.conflicts.set(conflict.targetKey, conflict.resolution);
+
+    this.stats.conflicts++;
+    if (this.conflictLog.length < this.MAX_REPORTED_CONFLICTS) {
+      this.conflictLog.push(conflict);
+    }
+    this.emit('conflict', conflict);
+  }
+
+  /**
+   * False for target keys this migration must not modify: keys kept by the
+   * conflict policy, and under any policy other than 'overwrite', keys that
+   * existed on the target before this run touched them.
+   */
+  private ownsTargetKey(db: DatabaseContext, targetKey: string): boolean {
+    if (keepsTargetKey(db.conflicts.get(targetKey))) {
+      return false;
+    }
+    return (this.options.onConflict ?? 'overwrite') === 'overwrite' || !db.conflicts.has(targetKey);
+  }
+
+  /**
+   * Target name for a source key, or null when the key mapping drops it.
+   */
+  private mapKey(key: string): string | null {
+    return this.keyMapper ? this.keyMapper.map(key) : key;
+  }
+
+  private isKeyIncluded(key: string): boolean {
+    return !this.keyFilter || this.keyFilter.matches(key);
+  }
+
+  /**
+   * SCANs a source database, pushing a single include glob down to MATCH.
+   * Callers still apply the full key filter to the returned keys. With
+   * `binary`, key names come as Buffers holding their exact bytes.
+   */
+  private scanKeys(db: DatabaseContext, cursor: string, count: number): Promise<[string, string[]]>;
+  private scanKeys(db: DatabaseContext, cursor: string, count: number, binary: true): Promise<[string, Buffer[]]>;
+  private async scanKeys(
+    db: DatabaseContext,
+    cursor: string,
+    count: number,
+    binary = false
+  ): Promise<[string, Array<string | Buffer>]> {
+    const scanPattern = this.keyFilter?.scanPattern;
+    if (binary) {
+      const [nextCursor, keys] = scanPattern
+        ? await db.source.scanBuffer(cursor, 'MATCH', scanPattern, 'COUNT', count)
+        : await db.source.scanBuffer(cursor, 'COUNT', count);
+      return [nextCursor.toString(), keys];
+    }
+    return scanPattern
+      ? db.source.scan(cursor, 'MATCH', scanPattern, 'COUNT', count)
+      : db.source.scan(cursor, 'COUNT', count);
+  }
+
+  /**
+   * Persists everything needed to resume this migration. Failures are logged
+   * but never interrupt the migration itself.
+   */
+  private async saveCheckpoint(status: MigrationCheckpoint['status']): Promise<void> {
+    if (!this.options.checkpoint) {
+      return;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { resumeFrom, ...options } = this.options;
+    try {
+      await saveCheckpoint({
+        migrationId: this.migrationId,
+        status,
+        source: this.sourceConfig,
+        target: this.targetConfig,
+        options,
+        databases: this.databases.map((db) => ({
+          mapping: db.mapping,
+          scanCursor: db.scanCursor,
+          progress: { ...db.progress },
+        })),
+        stats: {
+          processed: this.stats.processed,
+          skipped: this.stats.skipped,
+          totalSize: this.stats.totalSize,
+        },
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('Error saving checkpoint:', error);
+    }
+  }
+
+  private restoreCheckpoint(checkpoint: MigrationCheckpoint): void {
+    this.stats.processed = checkpoint.stats.processed;
+    this.stats.skipped = checkpoint.stats.skipped;
+    this.stats.totalSize = checkpoint.stats.totalSize;
+
+    for (const saved of checkpoint.databases) {
+      const db = saved.progress.shard
+        ? this.databases.find((candidate) => candidate.progress.shard === saved.progress.shard)
+        : this.getDatabase(saved.mapping.source);
+      if (db) {
+        db.scanCursor = saved.scanCursor;
+        db.progress = { ...saved.progress };
+      }
+    }
+  }
+
+  /**
+   * Dry run: scans the source with the same filters as a migration and
+   * reports what would be copied, without writing anything to the target.
+   */
+  public async plan(): Promise<MigrationPlan> {
+    const LARGEST_KEYS = 10;
+    const SUPPORTED_TYPES = ['string', 'hash', 'set', 'zset', 'list', 'stream'];
+
+    await this.validateConnections();
+    await this.discoverShards();
+
+    const plan: MigrationPlan = {
+      generatedAt: new Date().toISOString(),
+      totalKeys: 0,
+      totalBytes: 0,
+      byType: {},
+      ttl: { noExpiry: 0, underMinute: 0, underHour: 0, underDay: 0, overDay: 0 },
+      largestKeys: [],
+      unsupportedTypes: {},
+      memory: { keys: 0, targetUsed: 0, projected: 0 },
+      databases: [],
+    };
+
+    for (const db of this.databases) {
+      const summary = { ...db.mapping, shard: db.progress.shard, keys: 0, bytes: 0 };
+
+      await this.scanSource(db, '0', 1000, () => true, async (keys) => {
+        await Promise.all(keys.map((key) => this.rateLimiter.run(async () => {
+          if (this.mapKey(key) === null) {
+            return;
+          }
+
+          const [keyType, pttl] = await Promise.all([db.source.type(key), db.source.pttl(key)]);
+          if (keyType === 'none') {
+            return;
+          }
+
+          const bytes = await this.estimateKeySize(db, key, keyType);
+
+          summary.keys++;
+          summary.bytes += bytes;
+          plan.byType[keyType] = plan.byType[keyType] || { keys: 0, bytes: 0 };
+          plan.byType[keyType].keys++;
+          plan.byType[keyType].bytes += bytes;
+          plan.memory.keys += bytes;
+
+          if (!SUPPORTED_TYPES.includes(keyType)) {
+            plan.unsupportedTypes[keyType] = (plan.unsupportedTypes[keyType] || 0) + 1;
+          }
+
+          if (pttl < 0) plan.ttl.noExpiry++;
+          else if (pttl < 60 * 1000) plan.ttl.underMinute++;
+          else if (pttl < 60 * 60 * 1000) plan.ttl.underHour++;
+          else if (pttl < 24 * 60 * 60 * 1000) plan.ttl.underDay++;
+          else plan.ttl.overDay++;
+
+          const smallest = plan.largestKeys[plan.largestKeys.length - 1];
+          if (plan.largestKeys.length < LARGEST_KEYS || bytes > smallest.bytes) {
+            plan.largestKeys.push({ key, db: db.mapping.source, type: keyType, bytes });
+            plan.largestKeys.sort((a, b) => b.bytes - a.bytes);
+            plan.largestKeys.length = Math.min(plan.largestKeys.length, LARGEST_KEYS);
+          }
+        })));
+      });
+
+      plan.totalKeys += summary.keys;
+      plan.totalBytes += summary.bytes;
+      plan.databases.push(summary);
+    }
+
+    // A cluster target's memory is spread over its masters
+    const targetNodes = this.target instanceof Cluster ? this.target.nodes('master') : [this.target];
+    const targetMemory = await Promise.all(targetNodes.map((node) => node.info('memory')));
+    plan.memory.targetUsed = targetMemory
+      .reduce((sum, info) => sum + Number(/used_memory:(\d+)/.exec(info)?.[1] || 0), 0);
+    plan.memory.projected = plan.memory.targetUsed + plan.memory.keys;
+
+    return plan;
+  }
+
+  /**
+   * Size of a key for the plan, from MEMORY USAGE with a few sampled elements
+   * so big collections are not read. Where MEMORY is not allowed, strings use
+   * STRLEN and only collections below the big-key threshold are read; big
+   * ones count as 0 bytes.
+   */
+  private async estimateKeySize(db: DatabaseContext, key: string, keyType: string): Promise<number> {
+    const usage = await db.source.memory('USAGE', key, 'SAMPLES', PLAN_MEMORY_SAMPLES).catch(() => null);
+    if (usage !== null) {
+      return usage;
+    }
+
+    if (keyType === 'string') {
+      return await db.source.strlen(key) + Buffer.byteLength(key);
+    }
+    if (this.isBigKey(await collectionLength(db.source, key, keyType))) {
+      return 0;
+    }
+    return this.calculateTotalSize(db, key);
+  }
+
+  private async enableRealtimeSync(): Promise<void> {
+    try {
+      await this.enableKeyspaceEvents();
+
+      if (this.sourceConfig.cluster) {
+        await Promise.all(this.databases.map((db) => this.subscribeShard(db)));
+        this.realtimeSyncEnabled = true;
+        return;
+      }
+
+      // Subscribe to all keyspace events of every migrated database
+      await this.subscriber?.psubscribe(...this.databases.map((db) => keyspacePattern(db.mapping.source)));
+      
+      this.realtimeSyncEnabled = true;
+      
+      // Set up the event handler for real-time updates
+      this.subscriber?.on('pmessage', (_pattern, channel, message) => {
+        const event = parseKeyspaceChannel(channel);
+        const db = event && this.getDatabase(event.db);
+        if (event && db) {
+          this.handleKeyspaceEvent(db, event.key, message);
+        }
+      });
+    } catch (error) {
+      console.error('Error enabling real-time sync:', error);
+      throw error;
+    }
+  }
+
+  private async enableKeyspaceEvents(): Promise<void> {
+    // Keyspace notifications are node-local, so a cluster needs them on every master
+    const nodes = this.sourceConfig.cluster ? this.databases.map((db) => db.source) : [this.source];
+    for (const node of nodes) {
+      // Enable keyspace notifications if not already enabled
+      const config = await node.config('GET', 'notify-keyspace-events') as [string, string];
+      const currentConfig = config[1] || '';
+
+      if (!currentConfig.includes('A') || !currentConfig.includes('K') || !currentConfig.includes('E')) {
+        await node.config('SET', 'notify-keyspace-events', 'AKE');
+      }
+    }
+  }
+
+  /**
+   * Subscribes to the keyspace events of one cluster master on a dedicated
+   * connection to that node.
+   */
+  private async subscribeShard(db: DatabaseContext): Promise<void> {
+    const subscriber = db.source.duplicate();
+    subscriber.on('error', (err) => {
+      console.error(`Subscriber Redis (${db.progress.shard}) error:`, err);
+      this.emit('error', new Error(`Subscriber Redis (${db.progress.shard}) error: ${err.message}`));
+    });
+    db.subscriber = subscriber;
+
+    await subscriber.psubscribe(keyspacePattern(db.mapping.source));
+    subscriber.on('pmessage', (_pattern, channel, message) => {
+      const event = parseKeyspaceChannel(channel);
+      if (event) {
+        this.handleKeyspaceEvent(db, event.key, message);
+      }
+    });
+  }
+
+  /**
+   * Queues the change a keyspace event of a source key calls for, as the
+   * event table in keyspace-events.ts directs.
+   */
+  private handleKeyspaceEvent(db: DatabaseContext, key: string, operation: string): void {
+    if (!this.realtimeSyncEnabled || !this.isKeyIncluded(key)) return;
+
+    const action = keyspaceAction(operation);
+    if (action !== 'ignore') {
+      this.changeQueue.push(`${db.mapping.source}:${key}`, { db, key }, action);
+    }
+  }
+
+  /**
+   * Applies one queued change of a source key to the target. The change
+   * queue runs these one at a time per key, in event order. Repairs made by
+   * reconciliation are not counted as processed keys.
+   */
+  private async applyKeyspaceChange(
+    db: DatabaseContext,
+    key: string,
+    action: ChangeAction,
+    repair = false
+  ): Promise<void> {
+    const targetKey = this.mapKey(key);
+
+    try {
+      switch (action) {
+        case 'copy':
+          await this.migrateKey(db, key);
+          if (!repair) {
+            this.countProcessed(db);
+            await this.updateCounts();
+          }
+          this.emit('keyProcessed', { key, operation: repair ? 'repair' : 'update' });
+          break;
+        case 'stream-append':
+          await this.syncStreamAppend(db, key);
+          this.emit('keyProcessed', { key, operation: 'stream-append' });
+          break;
+        case 'delete':
+          if (targetKey !== null && this.ownsTargetKey(db, targetKey)) {
+            await db.target.del(targetKey);
+          }
+          this.emit('keyProcessed', { key, operation: 'delete' });
+          break;
+        case 'expire': {
+          const expireAt = await this.readExpireAt(db, key);
+          // A key gone by now reports its own del or expired event
+          if (expireAt !== null && targetKey !== null && this.ownsTargetKey(db, targetKey)) {
+            if (expireAt > 0) {
+              await db.target.pexpireat(targetKey, expireAt);
+            } else {
+              await db.target.persist(targetKey);
+            }
+          }
+          this.emit('keyProcessed', { key, operation: 'expire' });
+          break;
+        }
+      }
+    } catch (error) {
+      console.error(`Error processing real-time update for key ${key}:`, error);
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Replication change capture: PSYNC hands over an RDB of the whole source,
+   * which seeds the target, followed by every write the master replicates.
+   * Resolves once the target is seeded; the command stream is then applied
+   * in the background until the migration stops.
+   */
+  private async startReplication(): Promise<void> {
+    await this.loadCommandKeySpecs();
+    await this.refreshTotals();
+
+    const replication = new ReplicationClient(this.sourceConfig);
+    this.replication = replication;
+    await replication.connect();
+    await this.seedFromReplication(replication);
+
+    replication.startAcks();
+    this.realtimeSyncEnabled = true;
+    this.followReplicationStream(replication).catch((error) => {
+      const redisError = error as RedisError;
+      const errorMessage = redisError?.message || 'Unknown error';
+      // Frees what the source buffers for this replica
+      replication.close();
+      this.stats.errors.push(`Replication stream failed: ${errorMessage}`);
+      this.emit('warning', `The target no longer follows the source: ${errorMessage}`);
+      this.emit('error', redisError);
+    });
+  }
+
+  private async seedFromReplication(replication: ReplicationClient): Promise<void> {
+    await this.writeRdb((handler) => replication.readRdb(handler));
+  }
+
+  /**
+   * Offline import: writes the keys of an RDB file to the target. Progress
+   * is reported as the share of the file read so far, since key counts are
+   * only known per database and not at all when keys are filtered.
+   */
+  private async importRdbFile(path: string): Promise<void> {
+    let reader: RdbFileReader;
+    try {
+      reader = await RdbFileReader.open(path);
+    } catch (error) {
+      throw new Error(`Failed to open RDB file: ${(error as Error)?.message || 'Unknown error'}`);
+    }
+
+    try {
+      await this.writeRdb(
+        (handler) => parseRdb(reader, handler),
+        () => (reader.size > 0 ? (reader.position / reader.size) * 100 : 100)
+      );
+    } finally {
+      await reader.close();
+    }
+  }
+
+  /**
+   * Imports a snapshot archive written by exportSnapshot(), through the same
+   * path as an RDB file.
+   */
+  private async importArchive(path: string): Promise<void> {
+    let reader: ArchiveReader;
+    try {
+      reader = await ArchiveReader.open(path);
+    } catch (error) {
+      throw new Error(`Failed to open archive: ${(error as Error)?.message || 'Unknown error'}`);
+    }
+
+    try {
+      await this.writeRdb(
+        async (handler) => (await reader.read(handler)).version,
+        () => (reader.size > 0 ? (reader.position / reader.size) * 100 : 100)
+      );
+    } finally {
+      reader.close();
+    }
+  }
+
+  /**
+   * Replays an AOF, or the files of a Redis 7 manifest, into the target: an
+   * RDB base or preamble is imported like an RDB file, commands are applied
+   * like a replication stream. Ends at `stopAt` when the AOF has #TS
+   * annotations, and reports the offset to continue from.
+   */
+  private async replayAof(replay: AofReplayOptions): Promise<void> {
+    let files: AofFile[];
+    try {
+      files = await resolveAofFiles(replay.path);
+    } catch (error) {
+      throw new Error(`Failed to open AOF: ${(error as Error)?.message || 'Unknown error'}`);
+    }
+    await this.loadCommandKeySpecs();
+
+    const startOffset = replay.startOffset ?? 0;
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    const stream: CommandStreamState = { db: this.getDatabase(0), transaction: null };
+    let sawTimestamp = false;
+    let fileStart = 0;
+    let offset = startOffset;
+    let result: AofReadResult = 'end';
+
+    for (const file of files) {
+      if (!this.isRunning || result === 'stopped') {
+        break;
+      }
+      if (fileStart + file.size <= startOffset) {
+        fileStart += file.size;
+        continue;
+      }
+
+      const reader = await RdbFileReader.open(file.path);
+      const percent = () => (totalBytes > 0 ? ((fileStart + reader.position) / totalBytes) * 100 : 100);
+      try {
+        if (await startsWithRdb(reader)) {
+          if (startOffset > fileStart) {
+            throw new Error(`startOffset ${startOffset} falls inside the RDB part of ${file.path}`);
+          }
+          await this.writeRdb((handler) => parseRdb(reader, handler), percent);
+        }
+
+        let applied = 0;
+        result = await readAofCommands(reader, {
+          onCommand: async (args, commandOffset) => {
+            if (!this.isRunning) {
+              return false;
+            }
+            if (fileStart + commandOffset < startOffset) {
+              return;
+            }
+            await this.applyStreamCommand(stream, args);
+            offset = fileStart + reader.position;
+            if (++applied % 1000 === 0) {
+              this.updateSpeed();
+              this.emitProgress(percent());
+            }
+          },
+          onTimestamp: (seconds) => {
+            sawTimestamp = true;
+            return replay.stopAt === undefined || seconds * 1000 <= replay.stopAt;
+          },
+        });
+        if (result === 'truncated') {
+          this.emit('warning', `${file.path} ends with an incomplete command, which was not applied`);
+        }
+        this.emitProgress(percent());
+      } finally {
+        await reader.close();
+      }
+      fileStart += file.size;
+    }
+
+    if (replay.stopAt !== undefined && !sawTimestamp) {
+      this.emit('warning', 'The AOF has no #TS annotations (aof-timestamp-enabled), so it was replayed to its end');
+    }
+    this.emit('warning', `AOF replayed up to offset ${offset}${result === 'stopped' ? ', where it was stopped' : ''}`);
+  }
+
+  /**
+   * Export sink: writes a point-in-time copy of the source keyspace to a
+   * gzipped archive, one JSON line per key, instead of to a target. Key
+   * mapping is left to the import. The archive is only put in place once
+   * every database has been read; a stopped export leaves nothing behind.
+   */
+  private async exportSnapshot(path: string): Promise<void> {
+    const EXPORT_BATCH_SIZE = 1000;
+    await this.refreshTotals();
+
+    const { host, port, path: socketPath } = this.sourceConfig;
+    const writer = await ArchiveWriter.create(path, socketPath || `${host}:${port}`);
+
+    this.startLatencyMonitor();
+    try {
+      for (const db of this.databases) {
+        if (!this.isRunning) {
+          break;
+        }
+        db.progress.scanComplete = await this.scanSource(db, '0', EXPORT_BATCH_SIZE, () => this.isRunning, async (keys: Buffer[]) => {
+          const bigKeys = await this.findBigKeys(db, keys);
+          const records = await Promise.all(keys
+            .filter((key) => !bigKeys.has(key))
+            .map((key) => this.rateLimiter.run(() => this.readArchiveRecord(db, key))));
+          for (const record of records) {
+            if (record) {
+              await writer.write(record);
+              this.countProcessed(db);
+            }
+          }
+          // One at a time, since the records of a key must follow each other
+          for (const [key, keyType] of Array.from(bigKeys)) {
+            if (!this.isRunning) {
+              break;
+            }
+            if (await this.rateLimiter.run(() => this.exportBigKey(db, key, keyType, writer))) {
+              this.countProcessed(db);
+            }
+          }
+          this.updateSpeed();
+          this.emitProgress();
+        }, true);
+      }
+
+      if (!this.databases.every((db) => db.progress.scanComplete)) {
+        throw new Error('Export stopped before the whole keyspace was read');
+      }
+      await writer.close();
+    } catch (error) {
+      await writer.abort();
+      throw error;
+    } finally {
+      this.stopLatencyMonitor();
+    }
+  }
+
+  /**
+   * Reads a source key into its archive record, or skips it and returns null
+   * when it disappeared, expired or has a type the archive cannot hold.
+   */
+  private async readArchiveRecord(db: DatabaseContext, key: Buffer): Promise<ArchiveRecord | null> {
+    const [keyType, encoding, expireAt] = await Promise.all([
+      db.source.type(key),
+      db.source.object('ENCODING', key).catch(() => null),
+      this.readExpireAt(db, key),
+    ]);
+    if (keyType === 'none' || expireAt === null) {
+      this.skipKey(db, key.toString(), 'Key no longer exists');
+      return null;
+    }
+
+    const value = await this.readDecodedValue(db, key, keyType);
+    if (!value) {
+      this.skipKey(db, key.toString(), `Unsupported key type: ${keyType}`);
+      return null;
+    }
+    if (this.isExpired(expireAt)) {
+      this.skipKey(db, key.toString(), 'Key expired during migration');
+      return null;
+    }
+
+    const record = toArchiveRecord({ db: db.mapping.source, key, value, expireAt }, String(encoding ?? ''));
+    if (record) {
+      const size = key.length + rdbValueSize(value);
+      this.stats.totalSize += size;
+      await this.rateLimiter.consumeBytes(size);
+    }
+    return record;
+  }
+
+  /**
+   * Writes a big collection to the archive in chunks of `bigKeyChunkSize`
+   * elements, one record each, with every record but the last marked as
+   * continued. The value is never held whole. Returns false when the key
+   * disappeared before its first chunk was read.
+   */
+  private async exportBigKey(db: DatabaseContext, key: Buffer, keyType: string, writer: ArchiveWriter): Promise<boolean> {
+    const chunkSize = this.options.bigKeyChunkSize ?? 1000;
+    const [encoding, expireAt, streamMetadata] = await Promise.all([
+      db.source.object('ENCODING', key).catch(() => null),
+      this.readExpireAt(db, key),
+      keyType === 'stream'
+        ? Promise.all([this.readStreamLastId(db, key), this.readDecodedStreamGroups(db, key)])
+        : null,
+    ]);
+    if (expireAt === null) {
+      this.skipKey(db, key.toString(), 'Key no longer exists');
+      return false;
+    }
+
+    // A chunk is written once the next one is read, so the last one is known
+    let previous = null as ArchiveRecord | null;
+    const addChunk = async (value: RdbValue) => {
+      const record = toArchiveRecord({ db: db.mapping.source, key, value, expireAt }, String(encoding ?? ''));
+      if (previous) {
+        await writer.write({ ...previous, continued: true });
+      }
+      previous = record;
+
+      const size = rdbValueSize(value);
+      this.stats.totalSize += size;
+      await this.rateLimiter.consumeBytes(size);
+    };
+
+    if (keyType === 'stream') {
+      const [lastId, groups] = streamMetadata!;
+      await readStreamPages(db.source, key, '-', chunkSize, async (page) => {
+        const entries = page.map(([id, fields]): [string, Buffer[]] => [id.toString(), fields]);
+        // Later chunks only add entries
+        await addChunk({ type: 'stream', stream: { entries, lastId, groups: previous ? [] : groups } });
+      }, true);
+    } else {
+      await readCollectionChunks(db.source, key, keyType, chunkSize, async (values) => {
+        switch (keyType) {
+          case 'list': return addChunk({ type: 'list', items: values });
+          case 'set': return addChunk({ type: 'set', members: values });
+          case 'hash': return addChunk({ type: 'hash', fields: pairUp(values) });
+          case 'zset':
+            return addChunk({ type: 'zset', members: pairUp(values).map(([member, score]) => [member, score.toString()]) });
+        }
+      }, true);
+    }
+
+    if (!previous) {
+      this.skipKey(db, key.toString(), 'Key no longer exists');
+      return false;
+    }
+    this.stats.totalSize += key.length;
+    await writer.write(previous);
+    return true;
+  }
+
+  /**
+   * Consumer groups of a stream in the form the RDB parser produces.
+   */
+  private async readDecodedStreamGroups(db: DatabaseContext, key: RedisKey): Promise<RdbStream['groups']> {
+    const groups = await this.readStreamGroups(db, key);
+    const now = Date.now();
+    return groups.map((group) => ({
+      ...group,
+      pending: group.pending.map(({ id, consumer, idle, deliveries }) => ({
+        id, consumer, deliveryTime: now - idle, deliveries,
+      })),
+    }));
+  }
+
+  /**
+   * Reads a whole value from the source in the decoded form the RDB parser
+   * produces, keeping binary members intact. Returns null for types that
+   * cannot be read this way, such as module types.
+   */
+  private async readDecodedValue(db: DatabaseContext, key: RedisKey, keyType: string): Promise<RdbValue | null> {
+    switch (keyType) {
+      case 'string':
+        return { type: 'string', value: await db.source.getBuffer(key) ?? Buffer.alloc(0) };
+      case 'list':
+        return { type: 'list', items: await db.source.lrangeBuffer(key, 0, -1) };
+      case 'set':
+        return { type: 'set', members: await db.source.smembersBuffer(key) };
+      case 'zset': {
+        const flat = await db.source.zrangeBuffer(key, 0, -1, 'WITHSCORES');
+        return { type: 'zset', members: pairUp(flat).map(([member, score]) => [member, score.toString()]) };
+      }
+      case 'hash':
+        return { type: 'hash', fields: pairUp(await db.source.callBuffer('HGETALL', key) as Buffer[]) };
+      case 'stream': {
+        const [entries, lastId, groups] = await Promise.all([
+          db.source.xrangeBuffer(key, '-', '+'),
+          this.readStreamLastId(db, key),
+          this.readDecodedStreamGroups(db, key),
+        ]);
+        return {
+          type: 'stream',
+          stream: {
+            entries: entries.map(([id, fields]): [string, Buffer[]] => [id.toString(), fields]),
+            lastId,
+            groups,
+          },
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Feeds the keys of an RDB to the target in batches of one database each.
+   * `parse` runs the parser over its input with the handler given; `percent`
+   * overrides the progress computed from the key counts.
+   */
+  private async writeRdb(
+    parse: (handler: ArchiveHandler) => Promise<number>,
+    percent?: () => number
+  ): Promise<void> {
+    const RDB_BATCH_SIZE = 1000;
+    const skippedDatabases = new Set<number>();
+    let batch: RdbKey[] = [];
+    // The archive key being written chunk by chunk, null when it is skipped
+    let chunkedKey = null as ChunkedKeyWrite | null;
+    const flush = async () => {
+      const entries = batch;
+      batch = [];
+      await this.writeRdbKeys(entries);
+      this.emitProgress(percent?.());
+    };
+    const isMapped = (sourceDb: number) => {
+      if (this.getDatabase(sourceDb)) {
+        return true;
+      }
+      if (!skippedDatabases.has(sourceDb)) {
+        skippedDatabases.add(sourceDb);
+        this.emit('warning', `Keys of db ${sourceDb} are skipped: the database is not mapped`);
+      }
+      return false;
+    };
+
+    await parse({
+      onKey: async (entry) => {
+        if (!isMapped(entry.db)) {
+          return;
+        }
+        // Batches never span databases
+        if (batch.length >= RDB_BATCH_SIZE || (batch.length > 0 && batch[0].db !== entry.db)) {
+          await flush();
+        }
+        batch.push(entry);
+      },
+      onKeyChunk: async (chunk, first, last) => {
+        if (!isMapped(chunk.db)) {
+          return;
+        }
+        if (first) {
+          await flush();
+          chunkedKey = await this.startChunkedKey(chunk);
+        }
+        if (chunkedKey) {
+          chunkedKey = await this.writeKeyChunk(chunkedKey, chunk, first, last);
+          this.emitProgress(percent?.());
+        }
+      },
+      onDatabaseSize: (sourceDb, keys) => {
+        const db = this.getDatabase(sourceDb);
+        // Filtered totals cannot be known before the keys are read
+        if (db && !this.keyFilter) {
+          db.progress.total = keys;
+          this.stats.total = this.databases.reduce((sum, context) => sum + context.progress.total, 0);
+        }
+      },
+      onFunction: (code) => this.loadFunction(code),
+    });
+    await flush();
+
+    for (const db of this.databases) {
+      db.progress.scanComplete = true;
+    }
+  }
+
+  /**
+   * Writes keys of one source database, decoded from an RDB, to the target.
+   * Filtering, key mapping, expiry and the conflict policy apply as they do
+   * to the SCAN snapshot.
+   */
+  private async writeRdbKeys(entries: RdbKey[]): Promise<void> {
+    const db = entries.length > 0 ? this.getDatabase(entries[0].db) : undefined;
+    if (!db) {
+      return;
+    }
+
+    const writes: Array<{ entry: RdbKey; target: RdbKeyTarget }> = [];
+    for (const entry of entries) {
+      const target = this.resolveRdbKeyTarget(db, entry);
+      if (target) {
+        writes.push({ entry, target });
+      }
+    }
+    const existing = await this.findExistingTargetKeys(db, writes.map(({ target }) => target.name));
+    const pipelines = this.createSlotPipelines(db);
+    const queued: Array<{ key: string; targetKey: string; size: number }> = [];
+
+    for (const { entry: { key: rawKey, value }, target: { key, targetKey, name, expireAt } } of writes) {
+      if (!await this.resolveConflict(db, key, targetKey, existing.has(targetKey))) {
+        this.skipKey(db, key, 'Kept the existing target key (conflict)');
+        continue;
+      }
+      if (!pipelines.queue(targetKey, (pipeline) => this.queueRdbValue(pipeline, name, value, expireAt), name)) {
+        this.skipKey(db, key, `Unsupported key type: module ${value.type === 'module' ? value.module : value.type}`);
+        continue;
+      }
+      queued.push({ key, targetKey, size: rawKey.length + rdbValueSize(value) });
+    }
+
+    const writeErrors = await pipelines.exec();
+    for (const { key, targetKey, size } of queued) {
+      const writeError = writeErrors.get(targetKey);
+      if (writeError) {
+        this.stats.errors.push(`Error writing key ${key}: ${writeError.message}`);
+        continue;
+      }
+      this.countProcessed(db);
+      this.stats.totalSize += size;
+    }
+  }
+
+  /**
+   * Filters, maps and translates the expiry of an RDB or archive key,
+   * reporting keys that are dropped or already expired. Returns null for
+   * keys not to be written.
+   */
+  private resolveRdbKeyTarget(db: DatabaseContext, entry: RdbKey): RdbKeyTarget | null {
+    // Filters, mapping and reports work on the UTF-8 name, but a key the
+    // mapping leaves alone keeps its exact bytes, valid UTF-8 or not
+    const key = entry.key.toString();
+    if (!this.isKeyIncluded(key)) {
+      return null;
+    }
+    const targetKey = this.mapKey(key);
+    if (targetKey === null) {
+      this.skipKey(db, key, 'Dropped by key mapping');
+      return null;
+    }
+
+    const expireAt = entry.expireAt > 0
+      ? entry.expireAt - this.clockOffsets.source + this.clockOffsets.target
+      : 0;
+    if (this.isExpired(expireAt)) {
+      this.skipKey(db, key, 'Key expired during migration');
+      return null;
+    }
+    return { key, targetKey, name: targetKey === key ? entry.key : targetKey, expireAt };
+  }
+
+  /**
+   * Starts writing a key that an archive splits over several records: runs
+   * the checks writeRdbKeys applies and picks a temporary key to build the
+   * value under. Returns null when the key is skipped.
+   */
+  private async startChunkedKey(chunk: RdbKey): Promise<ChunkedKeyWrite | null> {
+    const db = this.getDatabase(chunk.db)!;
+    const target = this.resolveRdbKeyTarget(db, chunk);
+    if (!target) {
+      return null;
+    }
+
+    const { key, targetKey, name } = target;
+    const existing = await this.findExistingTargetKeys(db, [name]);
+    if (!await this.resolveConflict(db, key, targetKey, existing.has(targetKey))) {
+      this.skipKey(db, key, 'Kept the existing target key (conflict)');
+      return null;
+    }
+
+    const { value } = chunk;
+    return {
+      ...target,
+      db,
+      tempKey: this.tempKeyFor(name) ?? name,
+      size: chunk.key.length,
+      stream: value.type === 'stream'
+        ? { lastId: value.stream.lastId, groups: this.toStreamGroupStates(value.stream.groups) }
+        : null,
+    };
+  }
+
+  /**
+   * Adds one archive record's elements to a key being written chunk by
+   * chunk. The last one applies the expiry, restores stream metadata and
+   * RENAMEs the temporary key over the target key, like migrateBigKey.
+   * Returns the write to continue, or null once it completed or failed.
+   */
+  private async writeKeyChunk(
+    write: ChunkedKeyWrite,
+    chunk: RdbKey,
+    first: boolean,
+    last: boolean
+  ): Promise<ChunkedKeyWrite | null> {
+    const { db, key, name, tempKey, expireAt, stream } = write;
+    try {
+      const pipeline = db.target.pipeline();
+      if (first) {
+        pipeline.del(tempKey);
+      }
+      const { value } = chunk;
+      if (value.type === 'stream') {
+        value.stream.entries.forEach(([id, fields]) => pipeline.xadd(tempKey, id, ...fields));
+      } else {
+        this.queueRdbElements(pipeline, tempKey, value);
+      }
+      await execOrThrow(pipeline);
+      write.size += rdbValueSize(value);
+      if (!last) {
+        return write;
+      }
+
+      const finish = db.target.multi();
+      if (stream) {
+        this.queueStreamMetadata(finish, tempKey, stream.lastId, stream.groups);
+      }
+      if (expireAt > 0) {
+        finish.pexpireat(tempKey, expireAt);
+      }
+      if (tempKey !== name) {
+        finish.rename(tempKey, name);
+      }
+      await execOrThrow(finish);
+    } catch (error) {
+      await db.target.del(tempKey).catch(() => undefined);
+      const redisError = error as RedisError;
+      this.stats.errors.push(`Error writing key ${key}: ${redisError?.message || 'Unknown error'}`);
+      return null;
+    }
+
+    this.countProcessed(db);
+    this.stats.totalSize += write.size;
+    return null;
+  }
+
+  /**
+   * Queues the commands recreating a decoded RDB value under `targetKey`,
+   * in chunks for large collections. Returns false for module values, which
+   * cannot be rebuilt without the module.
+   */
+  private queueRdbValue(pipeline: ChainableCommander, targetKey: RedisKey, value: RdbValue, expireAt: number): boolean {
+    switch (value.type) {
+      case 'string':
+        if (expireAt > 0) {
+          this.queueAtomicReplace(pipeline, targetKey, expireAt, (tempKey) => pipeline.set(tempKey, value.value));
+        } else {
+          pipeline.set(targetKey, value.value);
+        }
+        return true;
+      case 'hash':
+      case 'set':
+      case 'zset':
+      case 'list':
+        this.queueAtomicReplace(pipeline, targetKey, expireAt, (tempKey) => this.queueRdbElements(pipeline, tempKey, value));
+        return true;
+      case 'stream': {
+        const { entries, lastId, groups } = value.stream;
+        this.queueAtomicReplace(pipeline, targetKey, expireAt, (tempKey) => this.queueStreamContent(
+          pipeline, tempKey, entries, lastId, this.toStreamGroupStates(groups)
+        ));
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Queues the commands adding the elements of a decoded hash, set, sorted
+   * set or list to `key`, in chunks of `bigKeyChunkSize` elements.
+   */
+  private queueRdbElements(pipeline: ChainableCommander, key: RedisKey, value: RdbValue): void {
+    const chunkSize = this.options.bigKeyChunkSize ?? 1000;
+
+    switch (value.type) {
+      case 'hash':
+        chunked(value.fields, chunkSize).forEach((fields) => pipeline.hset(key, ...flatten(fields)));
+        break;
+      case 'set':
+        chunked(value.members, chunkSize).forEach((members) => pipeline.sadd(key, ...members));
+        break;
+      case 'zset':
+        chunked(value.members, chunkSize)
+          .forEach((members) => pipeline.zadd(key, ...flatten(members.map(([member, score]) => [score, member]))));
+        break;
+      case 'list':
+        chunked(value.items, chunkSize).forEach((items) => pipeline.rpush(key, ...items));
+        break;
+    }
+  }
+
+  /**
+   * Consumer groups decoded from an RDB or archive in the form the stream
+   * writes take, with delivery times turned into idle times.
+   */
+  private toStreamGroupStates(groups: RdbStream['groups']): StreamGroupState[] {
+    const sourceNow = Date.now() + this.clockOffsets.source;
+    return groups.map((group) => ({
+      name: group.name,
+      lastDeliveredId: group.lastDeliveredId,
+      consumers: group.consumers,
+      pending: group.pending.map((entry) => ({
+        id: entry.id,
+        consumer: entry.consumer,
+        idle: Math.max(0, sourceNow - entry.deliveryTime),
+        deliveries: entry.deliveries,
+      })),
+    }));
+  }
+
+  /**
+   * Loads a function library from the source RDB on every target master.
+   */
+  private async loadFunction(code: string): Promise<void> {
+    const nodes = this.target instanceof Cluster ? this.target.nodes('master') : [this.target];
+    try {
+      await Promise.all(nodes.map((node) => node.call('FUNCTION', 'LOAD', 'REPLACE', code)));
+    } catch (error) {
+      const redisError = error as RedisError;
+      this.stats.errors.push(`Error loading function library: ${redisError?.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Applies the replicated command stream in order. MULTI/EXEC blocks are
+   * applied as one transaction. A dropped link is resumed with a partial
+   * resync where the master's backlog allows, and re-seeded otherwise.
+   */
+  private async followReplicationStream(replication: ReplicationClient): Promise<void> {
+    const stream: CommandStreamState = { db: this.getDatabase(0), transaction: null };
+    let failures = 0;
+
+    while (this.realtimeSyncEnabled) {
+      let args: Buffer[];
+      try {
+        args = await replication.readCommand();
+        failures = 0;
+      } catch (error) {
+        if (!this.realtimeSyncEnabled) {
+          return;
+        }
+        if (++failures > this.REPLICATION_RETRY_LIMIT) {
+          throw error;
+        }
+        // The master re-sends an unfinished MULTI block after the resync
+        stream.transaction = null;
+        await new Promise((resolve) => setTimeout(resolve, 1000 * failures));
+        await this.resumeReplication(replication);
+        continue;
+      }
+
+      await this.applyStreamCommand(stream, args);
+    }
+  }
+
+  /**
+   * Applies one command of a replication stream or AOF, following SELECT and
+   * collecting MULTI/EXEC blocks so they are applied as one transaction.
+   */
+  private async applyStreamCommand(stream: CommandStreamState, args: Buffer[]): Promise<void> {
+    const name = args[0].toString().toLowerCase();
+    switch (name) {
+      case 'select':
+        stream.db = this.getDatabase(Number(args[1].toString()));
+        return;
+      case 'ping':
+        return;
+      case 'multi':
+        stream.transaction = [];
+        return;
+      case 'exec':
+        await this.applyReplicatedCommands(stream.transaction || []);
+        stream.transaction = null;
+        return;
+    }
+
+    const commands = this.expandReplicatedCommand(stream.db, name, args);
+    if (stream.transaction) {
+      stream.transaction.push(...commands);
+    } else if (commands.length > 0) {
+      await this.applyReplicatedCommands(commands);
+    }
+  }
+
+  private async resumeReplication(replication: ReplicationClient): Promise<void> {
+    const sync = await replication.connect(replication.getPosition() || undefined);
+    if (sync === 'full') {
+      this.emit('warning', 'The source could not continue the replication stream; re-seeding the target from a new RDB');
+      await this.seedFromReplication(replication);
+    }
+    replication.startAcks();
+  }
+
+  /**
+   * Resolves which target databases a replicated command applies to. Flushes
+   * and cross-database commands cannot be narrowed to the migrated keys, so
+   * they are only replicated when every key is migrated unchanged.
+   */
+  private expandReplicatedCommand(
+    db: DatabaseContext | undefined,
+    name: string,
+    args: Buffer[]
+  ): Array<{ db: DatabaseContext; args: Buffer[] }> {
+    const unfiltered = !this.keyFilter && !this.keyMapper;
+
+    switch (name) {
+      case 'publish':
+      case 'spublish':
+        return [];
+      case 'flushall':
+        if (unfiltered) {
+          return this.databases.map((context) => ({ db: context, args: [Buffer.from('FLUSHDB'), ...args.slice(1)] }));
+        }
+        break;
+      case 'flushdb':
+        if (unfiltered) {
+          return db ? [{ db, args }] : [];
+        }
+        break;
+      case 'swapdb':
+      case 'move':
+        break;
+      case 'copy':
+        if (args.some((arg) => arg.toString().toLowerCase() === 'db')) {
+          break;
+        }
+        return db ? [{ db, args }] : [];
+      default:
+        return db ? [{ db, args }] : [];
+    }
+
+    this.emit('warning', `${name.toUpperCase()} from the source was not applied to the target: `
+      + 'it cannot be limited to the migrated keys and databases');
+    return [];
+  }
 
-    this.migrationId = migrationId;
-    this.options = options;
+  private async applyReplicatedCommands(commands: Array<{ db: DatabaseContext; args: Buffer[] }>): Promise<void> {
+    const translated: Array<{ db: DatabaseContext; args: Buffer[]; keys: string[] }> = [];
+    for (const { db, args } of commands) {
+      const command = await this.translateReplicatedCommand(db, args);
+      if (command) {
+        translated.push({ db, ...command });
+      }
+    }
 
-    // Add error handlers
-    this.source.on('error', (err) => {
-      console.error('Source Redis error:', err);
-      this.emit('error', new Error(`Source Redis error: ${err.message}`));
-    });
+    if (translated.length > 0) {
+      await this.applyTranslatedCommands(translated);
+    }
+  }
+
+  private async applyTranslatedCommands(
+    translated: Array<{ db: DatabaseContext; args: Buffer[]; keys: string[] }>
+  ): Promise<void> {
+    const names = translated.map(({ args }) => args[0].toString().toUpperCase());
+    try {
+      const [{ db: first }] = translated;
+      if (translated.length > 1 && !this.targetConfig.cluster && translated.every(({ db }) => db === first)) {
+        const multi = first.target.multi();
+        translated.forEach(({ args }) => multi.call(args[0].toString(), ...args.slice(1)));
+        await execOrThrow(multi);
+      } else {
+        for (const { db, args } of translated) {
+          await db.target.call(args[0].toString(), ...args.slice(1));
+        }
+      }
+    } catch (error) {
+      const redisError = error as RedisError;
+      this.stats.errors.push(`Error applying replicated ${names.join(', ')}: ${redisError?.message || 'Unknown error'}`);
+      return;
+    }
 
-    this.target.on('error', (err) => {
-      console.error('Target Redis error:', err);
-      this.emit('error', new Error(`Target Redis error: ${err.message}`));
+    translated.forEach(({ db, keys }, i) => {
+      this.countProcessed(db);
+      this.emit('keyProcessed', { key: keys[0] ?? '', operation: names[i].toLowerCase() });
     });
   }
 
-  private async setupKeyspaceNotifications() {
-    try {
-      if (!this.subscriber) {
-        throw new Error('Subscriber not initialized');
+  /**
+   * Maps the keys of a replicated command to their target names. Keys that
+   * are filtered out, dropped by the key mapping or kept on the target by the
+   * conflict policy are left out of variadic commands such as DEL and MSET.
+   * Other commands mixing such keys with migrated ones cannot be applied in
+   * part, and applying them differently would leave the target drifting
+   * from the source, so they stop the stream. Returns null when the command
+   * touches no migrated key.
+   */
+  private async translateReplicatedCommand(
+    db: DatabaseContext,
+    args: Buffer[]
+  ): Promise<{ args: Buffer[]; keys: string[] } | null> {
+    const mapped = this.adjustReplicatedExpiry(args);
+    const positions = await this.findKeyPositions(args);
+    const included: Array<{ position: number; key: string; targetKey: string }> = [];
+
+    for (const position of positions) {
+      const key = args[position].toString();
+      const targetKey = this.isKeyIncluded(key) ? this.mapKey(key) : null;
+      if (targetKey !== null && !keepsTargetKey(db.conflicts.get(targetKey))) {
+        included.push({ position, key, targetKey });
       }
-      
-      await this.source.config('SET', 'notify-keyspace-events', 'AKE');
-      await this.subscriber.psubscribe('__keyspace@0__:*');
-      
-      this.subscriber.on('pmessage', async (_pattern, channel, message) => {
-        if (!this.realtimeSyncEnabled) return;
-        
-        const key = channel.split(':').slice(1).join(':');
-        const operation = message;
+    }
+    if (included.length === 0 && positions.length > 0) {
+      return null;
+    }
 
-        try {
-          if (['lpush', 'rpush', 'lpop', 'rpop', 'lset', 'lrem', 'ltrim'].includes(operation)) {
-            const keyType = await this.source.type(key);
-            if (keyType === 'list') {
-              const listItems = await this.source.lrange(key, 0, -1);
-              await this.target.del(key);
-              if (listItems.length > 0) {
-                await this.target.rpush(key, ...listItems);
-              }
-              this.emit('keyProcessed', { key, operation: 'list-update' });
-            }
-          } else {
-            switch (operation) {
-              case 'del':
-                await this.target.del(key);
-                this.emit('keyProcessed', { key, operation: 'delete' });
-                break;
-              case 'set':
-              case 'hset':
-              case 'sadd':
-              case 'zadd':
-                this.keyUpdateQueue.add(key);
-                if (!this.processingQueue) {
-                  await this.processKeyUpdateQueue();
-                }
-                break;
-            }
-          }
-        } catch (err) {
-          console.error(`Error processing operation ${operation} for key ${key}:`, err);
-          this.emit('error', err);
-        }
+    if (included.length === positions.length) {
+      included.forEach(({ position, targetKey }) => {
+        mapped[position] = Buffer.from(targetKey);
       });
+      return { args: mapped, keys: included.map(({ key }) => key) };
+    }
 
-    } catch (err) {
-      const redisError = err as RedisError;
-      const errorMessage = redisError?.message || 'Unknown error during keyspace notification setup';
-      this.stats.errors.push(`Failed to setup keyspace notifications: ${errorMessage}`);
-      this.emit('error', redisError);
+    const name = args[0].toString().toLowerCase();
+    const argsPerKey = this.SPLITTABLE_COMMANDS[name];
+    if (argsPerKey) {
+      const split = [mapped[0]];
+      included.forEach(({ position, targetKey }) => {
+        split.push(Buffer.from(targetKey), ...mapped.slice(position + 1, position + argsPerKey));
+      });
+      return { args: split, keys: included.map(({ key }) => key) };
     }
-  }
 
-  private async processKeyUpdateQueue() {
-    try {
-      if (this.keyUpdateQueue.size === 0) {
-        this.processingQueue = false;
-        return;
-      }
+    throw new Error(`${name.toUpperCase()} touches both migrated keys and keys that are not migrated, so it `
+      + 'cannot be applied to the target exactly; start a new migration to resync the target');
+  }
 
-      this.processingQueue = true;
-      const keys = Array.from(this.keyUpdateQueue);
-      this.keyUpdateQueue.clear();
+  /**
+   * Moves the absolute expiry times Redis 7 replicates (PEXPIREAT, SET ...
+   * PXAT, RESTORE ... ABSTTL) from the source clock to the target clock.
+   */
+  private adjustReplicatedExpiry(args: Buffer[]): Buffer[] {
+    const adjusted = args.slice();
+    const offset = this.clockOffsets.target - this.clockOffsets.source;
+    if (offset === 0) {
+      return adjusted;
+    }
 
-      await Promise.all(keys.map(async (key) => {
-        try {
-          await this.migrateKey(key);
-          this.emit('keyProcessed', { key, operation: 'update' });
-        } catch (error: unknown) {
-          const redisError = error as RedisError;
-          const errorMessage = redisError?.message || `Unknown error processing key ${key}`;
-          this.stats.errors.push(`Error processing key ${key}: ${errorMessage}`);
-          this.emit('error', redisError);
+    const shift = (position: number) => {
+      const time = Number(adjusted[position]?.toString());
+      if (Number.isFinite(time) && time > 0) {
+        adjusted[position] = Buffer.from(String(Math.round(time + offset)));
+      }
+    };
+    const options = args.map((arg) => arg.toString().toLowerCase());
+
+    switch (options[0]) {
+      case 'pexpireat':
+        shift(2);
+        break;
+      case 'set':
+        if (options.indexOf('pxat') > 2) {
+          shift(options.indexOf('pxat') + 1);
         }
-      }));
-    } catch (error: unknown) {
-      const redisError = error as RedisError;
-      const errorMessage = redisError?.message || `Unknown error processing queue`;
-      this.stats.errors.push(`Error processing queue: ${errorMessage}`);
-      this.emit('error', redisError);
+        break;
+      case 'restore':
+        if (options.indexOf('absttl') > 3) {
+          shift(2);
+        }
+        break;
     }
+    return adjusted;
   }
 
-  private async migrateKey(key: string): Promise<void> {
-    try {
-      // Check if key exists in source
-      const exists = await this.source.exists(key);
-      if (!exists) {
-        // Key was deleted, delete from target
-        await this.target.del(key);
-        return;
+  /**
+   * Argument positions holding keys, from the COMMAND table of the source.
+   * Commands whose keys depend on their arguments ask COMMAND GETKEYS.
+   */
+  private async findKeyPositions(args: Buffer[]): Promise<number[]> {
+    const name = args[0].toString().toLowerCase();
+    const spec = (args.length > 1 && this.commandKeySpecs.get(`${name}|${args[1].toString().toLowerCase()}`))
+      || this.commandKeySpecs.get(name);
+    if (!spec) {
+      return [];
+    }
+
+    const positions: number[] = [];
+    if (spec.movable) {
+      const keys = await this.commandTableClient().call('COMMAND', 'GETKEYS', ...args).catch(() => []) as string[];
+      const remaining = keys.map(String);
+      for (let i = 1; i < args.length && remaining.length > 0; i++) {
+        const index = remaining.indexOf(args[i].toString());
+        if (index !== -1) {
+          remaining.splice(index, 1);
+          positions.push(i);
+        }
       }
+      return positions;
+    }
 
-      const keyType = await this.source.type(key);
-      const ttl = await this.source.ttl(key);
+    if (spec.first <= 0) {
+      return positions;
+    }
+    const last = spec.last < 0 ? args.length + spec.last : spec.last;
+    for (let i = spec.first; i <= last && i < args.length; i += spec.step) {
+      positions.push(i);
+    }
+    return positions;
+  }
 
-      // Handle different data types
-      switch (keyType) {
-        case 'string':
-          await this.migrateString(key);
-          break;
-        case 'hash':
-          await this.migrateHash(key);
-          break;
-        case 'set':
-          await this.migrateSet(key);
-          break;
-        case 'zset':
-          await this.migrateSortedSet(key);
-          break;
-        case 'list':
-          await this.migrateList(key);
-          break;
-        default:
-          throw new Error(`Unsupported key type: ${keyType}`);
-      }
+  /**
+   * The instance whose COMMAND table locates keys in commands: the source,
+   * or the target when replaying an AOF without one.
+   */
+  private commandTableClient(): RedisClient {
+    return this.importsFile() ? this.target : this.source;
+  }
 
-      if (ttl > 0) {
-        await this.target.expire(key, ttl);
-      }
+  /**
+   * Reads the key positions of every command, and of Redis 7 subcommands
+   * such as `xgroup|create`, from the source's COMMAND table.
+   */
+  private async loadCommandKeySpecs(): Promise<void> {
+    const register = (entry: unknown[]) => {
+      const [name, , flags, first, last, step] = entry;
+      this.commandKeySpecs.set(String(name).toLowerCase(), {
+        first: Number(first),
+        last: Number(last),
+        step: Number(step) || 1,
+        movable: (flags as string[]).includes('movablekeys'),
+      });
+      ((entry[9] as unknown[][] | undefined) || []).forEach(register);
+    };
 
-      this.stats.processed++;
-      // Ensure processed never exceeds total
-      this.stats.processed = Math.min(this.stats.processed, this.stats.total);
-      this.updateSpeed();
-      
-      const keySize = await this.calculateTotalSize(key);
-      this.stats.totalSize = (this.stats.totalSize || 0) + keySize;
+    this.commandKeySpecs.clear();
+    (await this.commandTableClient().call('COMMAND') as unknown[][]).forEach(register);
+  }
 
-      await this.logMetrics();
+  /**
+   * Called when a sentinel-managed connection is back after a failover. Runs
+   * one recovery at a time; failovers seen meanwhile trigger one more.
+   */
+  private onFailover(label: string): void {
+    if (!this.realtimeSyncEnabled) {
+      return;
+    }
 
-      this.emit('progress', {
-        processed: this.stats.processed,
-        total: this.stats.total,
-        percent: Math.min((this.stats.processed / this.stats.total) * 100, 100),
-        keysPerSecond: this.stats.keysPerSecond,
-        totalSize: this.stats.totalSize
-      });
-    } catch (error: unknown) {
-      const redisError = error as RedisError;
-      const errorMessage = redisError?.message || `Unknown error migrating key ${key}`;
-      throw new Error(`Migration failed for key ${key}: ${errorMessage}`);
+    this.emit('warning', `${label} reconnected after a failover; reconciling keys changed while disconnected`);
+    if (this.failoverRecovery) {
+      this.failoverPending = true;
+      return;
     }
+
+    this.failoverRecovery = (async () => {
+      do {
+        this.failoverPending = false;
+        await this.recoverFromFailover();
+      } while (this.failoverPending && this.realtimeSyncEnabled);
+    })()
+      .catch((error) => {
+        const redisError = error as RedisError;
+        this.stats.errors.push(`Failover recovery failed: ${redisError?.message || 'Unknown error'}`);
+        this.emit('error', redisError);
+      })
+      .finally(() => {
+        this.failoverRecovery = null;
+      });
   }
 
-  private async migrateString(key: string): Promise<void> {
-    const value = await this.source.get(key);
-    if (value !== null) {
-      await this.target.set(key, value);
-    }
+  /**
+   * Brings real-time sync back in line after a failover. The new master does
+   * not inherit keyspace notification settings set with CONFIG SET, and
+   * events published while disconnected are lost, so notifications are
+   * re-enabled, subscriptions renewed and every database reconciled.
+   */
+  private async recoverFromFailover(): Promise<void> {
+    await this.enableKeyspaceEvents();
+    await this.subscriber?.psubscribe(...this.databases.map((db) => keyspacePattern(db.mapping.source)));
+
+    const { checked, repaired } = await this.reconcileDatabases(true);
+    this.reconcileStats.checked += checked;
+    this.reconcileStats.repaired += repaired;
+
+    this.emit('warning', `Failover reconciliation checked ${checked} keys and repaired ${repaired}`);
+    await this.updateCounts();
   }
 
-  private async migrateHash(key: string): Promise<void> {
-    const data = await this.source.hgetall(key);
-    if (Object.keys(data).length > 0) {
-      await this.target.hmset(key, data);
+  /**
+   * Schedules the next reconciliation sweep while the migration runs. Sweeps
+   * never overlap: the interval counts from the end of the previous one.
+   */
+  private scheduleReconciliation(): void {
+    const intervalMs = this.options.reconcile?.intervalMs;
+    if (!intervalMs || !this.isRunning || this.isOneShot()) {
+      return;
     }
+
+    this.reconcileTimer = setTimeout(() => {
+      this.reconcileTimer = null;
+      this.runReconciliationSweep()
+        .catch((error) => {
+          const redisError = error as RedisError;
+          this.stats.errors.push(`Reconciliation sweep failed: ${redisError?.message || 'Unknown error'}`);
+          this.emit('error', redisError);
+        })
+        .finally(() => this.scheduleReconciliation());
+    }, intervalMs);
   }
 
-  private async migrateSet(key: string): Promise<void> {
-    const members = await this.source.smembers(key);
-    if (members.length > 0) {
-      await this.target.sadd(key, ...members);
+  private stopReconciliation(): void {
+    if (this.reconcileTimer) {
+      clearTimeout(this.reconcileTimer);
+      this.reconcileTimer = null;
     }
   }
 
-  private async migrateSortedSet(key: string): Promise<void> {
-    const members = await this.source.zrange(key, 0, -1, 'WITHSCORES');
-    if (members.length > 0) {
-      const args = [];
-      for (let i = 0; i < members.length; i += 2) {
-        args.push(members[i + 1], members[i]);
-      }
-      await this.target.zadd(key, ...args);
+  /**
+   * Re-scans every source database and repairs the target keys whose
+   * fingerprint differs, catching changes whose keyspace events were lost.
+   * Skipped while sync is paused or a failover recovery is reconciling.
+   */
+  private async runReconciliationSweep(): Promise<void> {
+    if (!this.realtimeSyncEnabled || this.failoverRecovery) {
+      return;
     }
+
+    const { checked, repaired, extraKeys } = await this.reconcileDatabases(
+      this.options.reconcile?.compareContent ?? false
+    );
+
+    this.reconcileStats = {
+      sweeps: this.reconcileStats.sweeps + 1,
+      checked: this.reconcileStats.checked + checked,
+      repaired: this.reconcileStats.repaired + repaired,
+      lastSweepAt: new Date().toISOString(),
+      lastRepaired: repaired,
+      lastExtraKeys: extraKeys,
+    };
+    this.emitProgress();
   }
 
-  private async migrateList(key: string): Promise<void> {
-    const items = await this.source.lrange(key, 0, -1);
-    if (items.length > 0) {
-      // First delete the existing list in target
-      await this.target.del(key);
-      // Then add all items
-      await this.target.rpush(key, ...items);
+  /**
+   * Reconciles every database, then looks for target keys whose source key
+   * is gone, once per target database. Those are only reported: a target
+   * shared with other clients holds keys this run never wrote.
+   */
+  private async reconcileDatabases(
+    compareContent: boolean
+  ): Promise<{ checked: number; repaired: number; extraKeys: number }> {
+    let checked = 0;
+    let repaired = 0;
+    let extraKeys = 0;
+    const examples: string[] = [];
+    for (const db of this.databases) {
+      const result = await this.reconcileDatabase(db, compareContent);
+      checked += result.checked;
+      repaired += result.repaired;
     }
-  }
 
-  private updateSpeed(): void {
-    const elapsed = (Date.now() - this.stats.startTime) / 1000;
-    this.stats.keysPerSecond = Math.round(this.stats.processed / elapsed);
+    const byTarget = new Map<number, DatabaseContext[]>();
+    for (const db of this.databases) {
+      byTarget.set(db.mapping.target, [...(byTarget.get(db.mapping.target) || []), db]);
+    }
+    for (const databases of Array.from(byTarget.values())) {
+      if (this.realtimeSyncEnabled) {
+        extraKeys += await this.findExtraTargetKeys(databases, examples);
+      }
+    }
+    if (extraKeys > 0) {
+      this.emit('warning', `${extraKeys} target keys have no source key and were left in place, `
+        + `e.g. ${examples.join(', ')}`);
+    }
+
+    return { checked, repaired, extraKeys };
   }
 
-  public async start(): Promise<void> {
-    if (this.initialScanRunning) {
-      throw new Error('Initial migration already in progress');
-    }
+  /**
+   * Compares every included source key with its target key and re-copies
+   * those that differ. Comparisons go through the rate limiter, like the
+   * snapshot, and repairs through the change queue, so they never overtake a
+   * real-time change of the same key.
+   */
+  private async reconcileDatabase(
+    db: DatabaseContext,
+    compareContent = true
+  ): Promise<{ checked: number; repaired: number }> {
+    const RECONCILE_BATCH_SIZE = 1000;
+    let checked = 0;
+    let repaired = 0;
+    let cursor = '0';
+
+    do {
+      const [next, keys] = await this.scanKeys(db, cursor, RECONCILE_BATCH_SIZE);
+      cursor = next;
+
+      await Promise.all(keys.filter((key) => this.isKeyIncluded(key)).map((key) => this.rateLimiter.run(async () => {
+        const targetKey = this.mapKey(key);
+        if (targetKey === null || !this.ownsTargetKey(db, targetKey)) {
+          return;
+        }
 
-    try {
-      // Validate connections before starting
-      await this.validateConnections();
-      
-      // Initialize subscriber after validation
-      await this.initializeSubscriber();
-      
-      this.initialScanRunning = true;
-      this.isRunning = true;
-      this.stats.startTime = Date.now();
-      this.scanCursor = '0';
-      this.stats.processed = 0;
-      this.stats.errors = [];
+        checked++;
+        if (!await this.keyInSync(db, key, targetKey, compareContent)) {
+          await this.changeQueue.push(`${db.mapping.source}:${key}`, { db, key, repair: true }, 'copy');
+          repaired++;
+        }
+      })));
+    } while (cursor !== '0' && this.realtimeSyncEnabled);
 
-      try {
-        // Enable real-time sync before starting the initial scan
-        await this.enableRealtimeSync();
+    return { checked, repaired };
+  }
 
-        const dbsize = await this.source.dbsize();
-        this.stats.total = Number(dbsize);
-        
-        // Increase batch size for better performance
-        const PIPELINE_BATCH_SIZE = 5000;
-        
-        while (this.initialScanRunning && this.isRunning) {
-          const [cursor, keys] = await this.source.scan(
-            this.scanCursor,
-            'COUNT',
-            PIPELINE_BATCH_SIZE
-          );
-
-          this.scanCursor = cursor;
-
-          // Process keys in smaller chunks to avoid memory issues
-          const chunkSize = 1000;
-          for (let i = 0; i < keys.length; i += chunkSize) {
-            const keyChunk = keys.slice(i, i + chunkSize);
-            
-            // Use pipeline for better performance
-            const pipeline = this.target.pipeline();
-            
-            await Promise.all(
-              keyChunk.map(async (key) => {
-                try {
-                  const keyType = await this.source.type(key);
-                  const ttl = await this.source.ttl(key);
-
-                  switch (keyType) {
-                    case 'string':
-                      const value = await this.source.get(key);
-                      if (value !== null) {
-                        pipeline.set(key, value);
-                      }
-                      break;
-                    case 'hash':
-                      const hash = await this.source.hgetall(key);
-                      if (Object.keys(hash).length > 0) {
-                        pipeline.hmset(key, hash);
-                      }
-                      break;
-                    // ... other cases remain the same ...
-                  }
-
-                  if (ttl > 0) {
-                    pipeline.expire(key, ttl);
-                  }
-
-                  this.stats.processed++;
-                  const keySize = await this.calculateTotalSize(key);
-                  this.stats.totalSize += keySize;
-                } catch (error) {
-                  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                  this.stats.errors.push(`Error processing key ${key}: ${errorMessage}`);
-                }
-              })
-            );
-
-            // Execute pipeline
-            await pipeline.exec();
-            
-            // Update metrics less frequently
-            if (this.stats.processed % 1000 === 0) {
-              await this.logMetrics();
-              this.updateSpeed();
-              this.emit('progress', {
-                processed: this.stats.processed,
-                total: this.stats.total,
-                percent: Math.min((this.stats.processed / this.stats.total) * 100, 100),
-                keysPerSecond: this.stats.keysPerSecond,
-                totalSize: this.stats.totalSize
-              });
-            }
-          }
+  /**
+   * SCANs a target database, shared by `databases`, for keys a migrated
+   * source key would be written to, but whose source key exists in none of
+   * them. Keys named by regex mapping rules cannot be traced back to a source
+   * key and are not counted. Returns the number found, adding the first few
+   * names to `examples`.
+   */
+  private async findExtraTargetKeys(databases: DatabaseContext[], examples: string[]): Promise<number> {
+    const MAX_EXAMPLES = 10;
+    const [first] = databases;
+    let found = 0;
+
+    await this.scanTargetKeys(first, () => this.realtimeSyncEnabled, (targetKeys) => Promise.all(
+      targetKeys.map((targetKey) => this.rateLimiter.run(async () => {
+        const sources = databases
+          .map((db) => ({ db, keys: this.sourceKeysFor(db, targetKey) }))
+          .filter(({ keys }) => keys.length > 0);
+        if (sources.length === 0) {
+          return;
+        }
 
-          if (cursor === '0') {
-            break;
+        const counts = await Promise.all(sources.map(({ db, keys }) => db.source.exists(...keys)));
+        if (counts.every((count) => count === 0)) {
+          found++;
+          if (examples.length < MAX_EXAMPLES) {
+            examples.push(targetKey);
           }
         }
+      }))
+    ));
 
-        this.initialScanRunning = false;
-        this.emit('scanComplete');
+    return found;
+  }
 
-        // Keep real-time sync running after initial scan completes
-        if (this.isRunning) {
-          this.emit('progress', {
-            processed: this.stats.processed,
-            total: this.stats.total,
-            percent: 100,
-            keysPerSecond: this.stats.keysPerSecond,
-            totalSize: this.stats.totalSize,
-          });
+  /**
+   * Included source keys of `db` that map to `targetKey`: the name itself
+   * and the names prefix rules rewrite into it, limited to the slots of the
+   * database's shard on a cluster source.
+   */
+  private sourceKeysFor(db: DatabaseContext, targetKey: string): string[] {
+    const candidates = this.keyMapper ? this.keyMapper.sourceCandidates(targetKey) : [targetKey];
+    return candidates.filter((key) => this.isKeyIncluded(key)
+      && this.mapKey(key) === targetKey
+      && (!db.shard || db.shard.slots.some(([start, end]) => keySlot(key) >= start && keySlot(key) <= end)));
+  }
+
+  /**
+   * SCANs the target database of `db`, every master of a cluster target,
+   * handing each batch of keys to `onBatch`. Returns true once the whole
+   * keyspace has been visited.
+   */
+  private async scanTargetKeys(
+    db: DatabaseContext,
+    shouldContinue: () => boolean,
+    onBatch: (keys: string[]) => Promise<unknown>
+  ): Promise<boolean> {
+    const SCAN_BATCH_SIZE = 1000;
+    const nodes = db.target instanceof Cluster ? db.target.nodes('master') : [db.target];
+
+    for (const node of nodes) {
+      let cursor = '0';
+      do {
+        if (!shouldContinue()) {
+          return false;
         }
-      } catch (error: unknown) {
-        const redisError = error as RedisError;
-        const errorMessage = redisError?.message || 'Unknown error during migration';
-        this.stats.errors.push(`Migration failed: ${errorMessage}`);
-        this.emit('error', redisError);
-        throw redisError;
-      }
-    } catch (error) {
-      await this.cleanup();
-      throw error;
+        const [next, keys] = await node.scan(cursor, 'COUNT', SCAN_BATCH_SIZE);
+        cursor = next;
+        await onBatch(keys);
+      } while (cursor !== '0');
     }
+    return true;
   }
 
-  private async enableRealtimeSync(): Promise<void> {
-    try {
-      // Enable keyspace notifications if not already enabled
-      const config = await this.source.config('GET', 'notify-keyspace-events') as [string, string];
-      const currentConfig = config[1] || '';
-      
-      if (!currentConfig.includes('A') || !currentConfig.includes('K') || !currentConfig.includes('E')) {
-        await this.source.config('SET', 'notify-keyspace-events', 'AKE');
-      }
+  /**
+   * True when the target key matches the source key's fingerprint: type,
+   * expiry (within the clock tolerance), length and, with `compareContent`,
+   * a digest of the value.
+   */
+  private async keyInSync(
+    db: DatabaseContext,
+    key: string,
+    targetKey: string,
+    compareContent = true
+  ): Promise<boolean> {
+    const TTL_TOLERANCE_MS = 2000;
+    const [sourceType, targetType, sourceExpireAt, targetTtl] = await Promise.all([
+      db.source.type(key),
+      db.target.type(targetKey),
+      this.readExpireAt(db, key),
+      db.target.pttl(targetKey),
+    ]);
+    if (sourceType === 'none') {
+      // Gone since the SCAN; handled through its keyspace event
+      return true;
+    }
+    if (sourceType !== targetType || sourceExpireAt === null) {
+      return false;
+    }
 
-      // Subscribe to all keyspace events
-      await this.subscriber?.psubscribe('__keyspace@0__:*');
-      
-      this.realtimeSyncEnabled = true;
-      
-      // Set up the event handler for real-time updates
-      this.subscriber?.on('pmessage', async (_pattern, channel, message) => {
-        if (!this.realtimeSyncEnabled) return;
-        
-        const key = channel.split(':').slice(1).join(':');
-        const operation = message;
+    const targetExpireAt = targetTtl > 0 ? Date.now() + this.clockOffsets.target + targetTtl : 0;
+    if ((sourceExpireAt > 0) !== (targetExpireAt > 0)
+      || Math.abs(sourceExpireAt - targetExpireAt) > TTL_TOLERANCE_MS) {
+      return false;
+    }
 
-        try {
-          switch (operation) {
-            case 'set':
-            case 'hset':
-            case 'sadd':
-            case 'zadd':
-            case 'lpush':
-            case 'rpush':
-              await this.migrateKey(key);
-              this.stats.processed++;
-              await this.updateCounts();
-              this.emit('keyProcessed', { key, operation: 'update' });
-              break;
-            case 'del':
-              await this.target.del(key);
-              this.emit('keyProcessed', { key, operation: 'delete' });
-              break;
-            case 'expire':
-              const ttl = await this.source.ttl(key);
-              if (ttl > 0) {
-                await this.target.expire(key, ttl);
-              }
-              this.emit('keyProcessed', { key, operation: 'expire' });
-              break;
-          }
-        } catch (error) {
-          console.error(`Error processing real-time update for key ${key}:`, error);
-          this.emit('error', error);
-        }
-      });
-    } catch (error) {
-      console.error('Error enabling real-time sync:', error);
-      throw error;
+    const valueLength = (redis: RedisClient, name: string) => (
+      sourceType === 'string' ? redis.strlen(name) : collectionLength(redis, name, sourceType)
+    );
+    const [sourceLength, targetLength] = await Promise.all([
+      valueLength(db.source, key),
+      valueLength(db.target, targetKey),
+    ]);
+    if (sourceLength !== targetLength) {
+      return false;
     }
+    if (!compareContent) {
+      return true;
+    }
+
+    const [sourceDigest, targetDigest] = await Promise.all([
+      computeDigest(db.source, key, sourceType),
+      computeDigest(db.target, targetKey, targetType),
+    ]);
+    return sourceDigest === targetDigest;
   }
 
   public async stop(): Promise<void> {
     this.initialScanRunning = false;
     this.isRunning = false;
     this.realtimeSyncEnabled = false;
+    this.stopReconciliation();
     
     try {
+      await this.saveCheckpoint('stopped');
+
+      this.replication?.close();
+
       // Unsubscribe from keyspace notifications
-      await this.subscriber?.punsubscribe('__keyspace@0__:*');
+      await this.subscriber?.punsubscribe(...this.databases.map((db) => keyspacePattern(db.mapping.source)));
+      await Promise.all(this.databases.map((db) => db.subscriber?.punsubscribe()));
       
-      // Clear any pending updates
-      this.keyUpdateQueue.clear();
-      this.processingQueue = false;
+      // Drop changes not yet applied
+      this.changeQueue.clear();
       
       this.emit('stopped');
     } catch (error) {
@@ -518,17 +3316,44 @@ export class RedisMigrator extends EventEmitter {
     this.emit('syncResumed');
   }
 
+  /**
+   * Changes the snapshot rate limits of a running migration. Omitted fields
+   * keep their current value; 0 removes a cap.
+   */
+  public updateRateLimits(limits: RateLimitOptions): void {
+    this.rateLimiter.update(limits);
+    // Keep the new limits when the migration is resumed from a checkpoint
+    this.options = { ...this.options, rateLimits: this.rateLimiter.getState().limits };
+    if (this.initialScanRunning) {
+      this.stopLatencyMonitor();
+      this.startLatencyMonitor();
+    }
+    this.emitProgress();
+  }
+
   public getStats(): MigrationStats {
     return { ...this.stats };
   }
 
+  public getConflicts(): ConflictRecord[] {
+    return [...this.conflictLog];
+  }
+
   public async cleanup(): Promise<void> {
+    this.stopLatencyMonitor();
+    this.stopReconciliation();
+    this.replication?.close();
     try {
       if (this.subscriber) {
         await this.subscriber.quit();
       }
-      await this.source.quit();
-      await this.target.quit();
+      await closeClient(this.source);
+      await closeClient(this.target);
+      await Promise.all(this.databases.map((db) => Promise.all([
+        closeClient(db.source),
+        closeClient(db.target),
+        db.subscriber?.quit(),
+      ])));
     } catch (error) {
       console.error('Error during cleanup:', error);
     }
@@ -536,22 +3361,43 @@ export class RedisMigrator extends EventEmitter {
 
   private async updateCounts(): Promise<void> {
     try {
-      const currentDbSize = await this.source.dbsize();
-      this.stats.total = Number(currentDbSize);
+      // Filtered totals need a full SCAN, so they are only counted at start
+      if (!this.keyFilter) {
+        await this.refreshTotals();
+      }
       this.stats.processed = Math.min(this.stats.processed, this.stats.total);
       
-      this.emit('progress', {
-        processed: this.stats.processed,
-        total: this.stats.total,
-        percent: Math.min((this.stats.processed / this.stats.total) * 100, 100),
-        keysPerSecond: this.stats.keysPerSecond,
-        totalSize: this.stats.totalSize,
-      });
+      this.emitProgress();
     } catch (error) {
       console.error('Error updating counts:', error);
     }
   }
 
+  private async refreshTotals(): Promise<void> {
+    const sizes = await Promise.all(this.databases.map((db) => this.countKeys(db)));
+    this.databases.forEach((db, i) => {
+      db.progress.total = sizes[i];
+    });
+    this.stats.total = this.databases.reduce((sum, db) => sum + db.progress.total, 0);
+  }
+
+  /**
+   * DBSIZE when every key is migrated, otherwise a counting SCAN over the
+   * keys accepted by the key filter.
+   */
+  private async countKeys(db: DatabaseContext): Promise<number> {
+    if (!this.keyFilter) {
+      return Number(await db.source.dbsize());
+    }
+
+    let count = 0;
+    await this.scanSource(db, '0', 5000, () => true, async (keys) => {
+      count += keys.length;
+    });
+
+    return count;
+  }
+
   private startPeriodicCountUpdate() {
     setInterval(async () => {
       if (this.realtimeSyncEnabled) {
@@ -560,36 +3406,55 @@ export class RedisMigrator extends EventEmitter {
     }, 5000); // Update every 5 seconds
   }
 
-  private async calculateTotalSize(key: string): Promise<number> {
+  private async calculateTotalSize(db: DatabaseContext, key: string): Promise<number> {
     try {
-      const keyType = await this.source.type(key);
+      const keyType = await db.source.type(key);
       let size = 0;
 
+      if (this.isBigKey(await collectionLength(db.source, key, keyType))) {
+        const chunkSize = this.options.bigKeyChunkSize ?? 1000;
+        if (keyType === 'stream') {
+          await readStreamPages(db.source, key, '-', chunkSize, async (page) => {
+            size += page.reduce((sum, [id, fields]) => sum + Buffer.byteLength(id) + byteLength(fields), 0);
+          });
+        } else {
+          await readCollectionChunks(db.source, key, keyType, chunkSize, async (values) => {
+            size += byteLength(values);
+          });
+        }
+        return size + Buffer.byteLength(key);
+      }
+
       switch (keyType) {
         case 'string':
-          const value = await this.source.get(key);
+          const value = await db.source.get(key);
           size = value ? Buffer.byteLength(value) : 0;
           break;
         case 'hash':
-          const hashData = await this.source.hgetall(key);
+          const hashData = await db.source.hgetall(key);
           size = Object.entries(hashData).reduce((acc, [k, v]) => 
             acc + Buffer.byteLength(k) + Buffer.byteLength(v), 0);
           break;
         case 'set':
-          const setMembers = await this.source.smembers(key);
+          const setMembers = await db.source.smembers(key);
           size = setMembers.reduce((acc, member) => 
             acc + Buffer.byteLength(member), 0);
           break;
         case 'zset':
-          const zsetMembers = await this.source.zrange(key, 0, -1, 'WITHSCORES');
+          const zsetMembers = await db.source.zrange(key, 0, -1, 'WITHSCORES');
           size = zsetMembers.reduce((acc, member) => 
             acc + Buffer.byteLength(member), 0);
           break;
         case 'list':
-          const listItems = await this.source.lrange(key, 0, -1);
+          const listItems = await db.source.lrange(key, 0, -1);
           size = listItems.reduce((acc, item) => 
             acc + Buffer.byteLength(item), 0);
           break;
+        case 'stream':
+          const streamEntries = await this.readStreamEntries(db, key);
+          size = streamEntries.reduce((acc, [id, fields]) =>
+            acc + Buffer.byteLength(id) + fields.reduce((sum, field) => sum + Buffer.byteLength(field), 0), 0);
+          break;
       }
 
       // Add the key size itself
@@ -629,7 +3494,61 @@ export class RedisMigrator extends EventEmitter {
     }
   }
 
-  async testConnection(redis: Redis): Promise<{ success: boolean; error?: string }> {
+  /**
+   * Samples source latency once per interval while the snapshot runs and
+   * feeds it to the rate limiter, which backs off above the configured
+   * threshold.
+   */
+  private startLatencyMonitor(): void {
+    const { latencyThresholdMs } = this.rateLimiter.getState().limits;
+    if (!latencyThresholdMs || this.latencyMonitor) {
+      return;
+    }
+
+    let probing = false;
+    this.latencyMonitor = setInterval(async () => {
+      if (probing) {
+        return;
+      }
+      probing = true;
+      try {
+        this.rateLimiter.reportLatency(await this.probeSourceLatency());
+      } catch (error) {
+        console.error('Error probing source latency:', error);
+      } finally {
+        probing = false;
+      }
+    }, this.LATENCY_PROBE_INTERVAL);
+  }
+
+  private stopLatencyMonitor(): void {
+    if (this.latencyMonitor) {
+      clearInterval(this.latencyMonitor);
+      this.latencyMonitor = null;
+    }
+  }
+
+  /**
+   * Round-trip time of a PING, or with the 'latency-latest' probe the worst
+   * recent spike recorded by the source's latency monitor (which requires
+   * latency-monitor-threshold to be set on the source).
+   */
+  private async probeSourceLatency(): Promise<number> {
+    if (this.rateLimiter.getState().limits.latencyProbe === 'latency-latest') {
+      // Each entry: [event, unix timestamp, latest ms, max ms]
+      const events = await this.source.call('LATENCY', 'LATEST') as Array<[string, number, number, number]>;
+      const since = Date.now() / 1000 - (this.LATENCY_PROBE_INTERVAL / 1000) * 5;
+      return events
+        .filter(([, timestamp]) => timestamp >= since)
+        .reduce((max, [, , latest]) => Math.max(max, latest), 0);
+    }
+
+    const startedAt = Date.now();
+    await this.source.ping();
+    return Date.now() - startedAt;
+  }
+
+  async testConnection(redis: RedisClient): Promise<{ success: boolean; error?: string }> {
     try {
       await redis.ping();
       return { success: true };
@@ -661,6 +3580,22 @@ export class RedisMigrator extends EventEmitter {
 
   async validateConnections(): Promise<void> {
     try {
+      if (this.importsFile()) {
+        // The file replaces the source, so only the target is contacted
+        const targetTest = await this.testConnection(this.target);
+        if (!targetTest.success) {
+          throw new Error(`Target Redis: ${targetTest.error}`);
+        }
+        return;
+      }
+      if (this.options.exportFile) {
+        const sourceTest = await this.testConnection(this.source);
+        if (!sourceTest.success) {
+          throw new Error(`Source Redis: ${sourceTest.error}`);
+        }
+        return;
+      }
+
       // Test source connection
       const sourceTest = await this.testConnection(this.source);
       if (!sourceTest.success) {
@@ -702,3 +3637,100 @@ export class RedisMigrator extends EventEmitter {
     }
   }
 }
+
+function keyspacePattern(db: number): string {
+  return `__keyspace@${db}__:*`;
+}
+
+/**
+ * Splits a `__keyspace@<db>__:<key>` channel into its database and key.
+ */
+function parseKeyspaceChannel(channel: string): { db: number; key: string } | null {
+  const match = /^__keyspace@(\d+)__:([\s\S]*)$/.exec(channel);
+  return match ? { db: Number(match[1]), key: match[2] } : null;
+}
+
+/**
+ * Closes a connection. Lazy clients that never connected are only marked
+ * closed, as QUIT would open the connection first.
+ */
+async function closeClient(client: RedisClient): Promise<void> {
+  if (client.status === 'wait') {
+    client.disconnect();
+  } else {
+    await client.quit();
+  }
+}
+
+function chunked<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function pairUp<T>(flat: T[]): Array<[T, T]> {
+  const pairs: Array<[T, T]> = [];
+  for (let i = 0; i + 1 < flat.length; i += 2) {
+    pairs.push([flat[i], flat[i + 1]]);
+  }
+  return pairs;
+}
+
+function flatten<A, B>(pairs: Array<[A, B]>): Array<A | B> {
+  const flat: Array<A | B> = [];
+  pairs.forEach(([first, second]) => flat.push(first, second));
+  return flat;
+}
+
+/**
+ * Approximate size in bytes of a decoded RDB value, for the size statistics.
+ */
+function rdbValueSize(value: RdbValue): number {
+  const sum = (buffers: Buffer[]) => buffers.reduce((total, buffer) => total + buffer.length, 0);
+  switch (value.type) {
+    case 'string': return value.value.length;
+    case 'list': return sum(value.items);
+    case 'set': return sum(value.members);
+    case 'zset': return value.members.reduce((total, [member, score]) => total + member.length + score.length, 0);
+    case 'hash': return value.fields.reduce((total, [field, fieldValue]) => total + field.length + fieldValue.length, 0);
+    case 'stream': return value.stream.entries.reduce((total, [id, fields]) => total + id.length + sum(fields), 0);
+    default: return 0;
+  }
+}
+
+function byteLength(values: string[]): number {
+  return values.reduce((sum, value) => sum + Buffer.byteLength(value), 0);
+}
+
+/**
+ * Executes a pipeline and throws the first command error, which exec()
+ * otherwise only reports in its results.
+ */
+async function execOrThrow(pipeline: ChainableCommander): Promise<void> {
+  const results = await pipeline.exec();
+  const failed = results?.find(([error]) => error);
+  if (failed) {
+    throw failed[0];
+  }
+}
+
+/**
+ * Converts the flat field/value arrays returned by XINFO into an object.
+ */
+function toRecord(flat: unknown[]): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (let i = 0; i < flat.length; i += 2) {
+    record[String(flat[i])] = flat[i + 1];
+  }
+  return record;
+}
+
+/**
+ * A DUMP payload ends with a 2-byte little-endian RDB version followed by an
+ * 8-byte CRC64 checksum.
+ */
+function readRdbVersion(payload: Buffer): number {
+  return payload.readUInt16LE(payload.length - 10);
+}
@@ -0,0 +1,327 @@
+import net, { Socket } from 'net';
+import tls from 'tls';
+import { ByteReader, RdbHandler, parseRdb } from './rdb-parser';
+import { RedisConfig } from './redis-migrator';
+import { toTlsOptions } from './connection-options';
+
+// Where a replica is in the master's replication stream; PSYNC continues
+// from here after a reconnect when the master still has the backlog
+export interface ReplicationPosition {
+  replid: string;
+  offset: number;
+}
+
+const HIGH_WATER_MARK = 64 * 1024 * 1024;
+const LOW_WATER_MARK = 16 * 1024 * 1024;
+const ACK_INTERVAL = 1000;
+const EOF_MARK_LENGTH = 40;
+// Same as ioredis' default connectTimeout
+const CONNECT_TIMEOUT = 10000;
+
+/**
+ * Buffers a socket and hands out exact byte counts and lines, pausing the
+ * socket while too much is buffered so a slow consumer holds back the master.
+ */
+class SocketReader implements ByteReader {
+  private chunks: Buffer[] = [];
+  private buffered = 0;
+  private wake: (() => void) | null = null;
+  private failure: Error | null = null;
+  // Bytes handed out so far, used to advance the replication offset
+  public consumed = 0;
+
+  constructor(private socket: Socket) {
+    socket.on('data', (chunk: Buffer) => {
+      this.chunks.push(chunk);
+      this.buffered += chunk.length;
+      if (this.buffered > HIGH_WATER_MARK) {
+        socket.pause();
+      }
+      this.notify();
+    });
+    socket.on('error', (error) => {
+      this.failure = error;
+      this.notify();
+    });
+    socket.on('close', () => {
+      this.failure = this.failure || new Error('Replication connection closed by the source');
+      this.notify();
+    });
+  }
+
+  async read(length: number): Promise<Buffer> {
+    while (this.buffered < length) {
+      await this.waitForData();
+    }
+    return this.take(length);
+  }
+
+  async readLine(): Promise<string> {
+    while (true) {
+      const end = this.indexOfNewline();
+      if (end !== -1) {
+        return this.take(end + 1).toString().replace(/\r?\n$/, '');
+      }
+      await this.waitForData();
+    }
+  }
+
+  private indexOfNewline(): number {
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      const index = chunk.indexOf(10);
+      if (index !== -1) {
+        return offset + index;
+      }
+      offset += chunk.length;
+    }
+    return -1;
+  }
+
+  private take(length: number): Buffer {
+    const parts: Buffer[] = [];
+    let remaining = length;
+    while (remaining > 0) {
+      const chunk = this.chunks[0];
+      if (chunk.length <= remaining) {
+        parts.push(chunk);
+        this.chunks.shift();
+        remaining -= chunk.length;
+      } else {
+        parts.push(chunk.subarray(0, remaining));
+        this.chunks[0] = chunk.subarray(remaining);
+        remaining = 0;
+      }
+    }
+
+    this.buffered -= length;
+    this.consumed += length;
+    if (this.buffered < LOW_WATER_MARK) {
+      this.socket.resume();
+    }
+    return parts.length === 1 ? parts[0] : Buffer.concat(parts, length);
+  }
+
+  private waitForData(): Promise<void> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    // A single value larger than the high water mark still has to arrive
+    this.socket.resume();
+    return new Promise((resolve) => {
+      this.wake = resolve;
+    });
+  }
+
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+}
+
+/**
+ * Connects to a master as a replica would: authenticates, announces its
+ * capabilities and requests a full or partial resync with PSYNC. After a full
+ * resync the RDB must be consumed with readRdb() before reading commands.
+ */
+export class ReplicationClient {
+  private socket: Socket | null = null;
+  private reader: SocketReader | null = null;
+  private position: ReplicationPosition | null = null;
+  private ackTimer: NodeJS.Timeout | null = null;
+
+  constructor(private config: RedisConfig) {}
+
+  getPosition(): ReplicationPosition | null {
+    return this.position && { ...this.position };
+  }
+
+  /**
+   * Opens the replication link. Continues from `from` when given and the
+   * master still holds that part of its backlog, otherwise starts a full
+   * resync. Resolves with the kind of sync the master chose.
+   */
+  async connect(from?: ReplicationPosition): Promise<'full' | 'partial'> {
+    this.close();
+    const socket = await this.openSocket();
+    this.socket = socket;
+    this.reader = new SocketReader(socket);
+
+    if (this.config.password) {
+      await this.request(this.config.username
+        ? ['AUTH', this.config.username, this.config.password]
+        : ['AUTH', this.config.password]);
+    }
+    await this.request(['PING']);
+    await this.request(['REPLCONF', 'listening-port', '0']);
+    // eof: diskless transfers are accepted; psync2: replication IDs survive failovers
+    await this.request(['REPLCONF', 'capa', 'eof', 'capa', 'psync2']);
+
+    const reply = await this.request(from
+      ? ['PSYNC', from.replid, String(from.offset + 1)]
+      : ['PSYNC', '?', '-1']);
+
+    const [status, replid, offset] = reply.split(' ');
+    if (status === '+FULLRESYNC') {
+      this.position = { replid, offset: Number(offset) };
+      return 'full';
+    }
+    if (status === '+CONTINUE' && from) {
+      // The master announces a new replication ID after a failover
+      this.position = { replid: replid || from.replid, offset: from.offset };
+      return 'partial';
+    }
+    throw new Error(`Unexpected PSYNC reply: ${reply}`);
+  }
+
+  /**
+   * Parses the RDB of a full resync, sent either with its length up front or,
+   * for diskless transfers, between two random 40-byte delimiters.
+   */
+  async readRdb(handler: RdbHandler): Promise<number> {
+    const reader = this.requireReader();
+
+    let header = '';
+    while (header === '') {
+      // The master sends newlines as keepalives while it prepares the RDB
+      header = await reader.readLine();
+    }
+    if (!header.startsWith('$')) {
+      throw new Error(`Unexpected RDB transfer header: ${header}`);
+    }
+
+    const eofMark = header.startsWith('$EOF:') ? header.slice(5) : null;
+    const start = reader.consumed;
+    const version = await parseRdb(reader, handler);
+
+    if (eofMark !== null) {
+      const mark = (await reader.read(EOF_MARK_LENGTH)).toString('latin1');
+      if (mark !== eofMark) {
+        throw new Error('RDB transfer did not end with its EOF mark');
+      }
+    } else if (reader.consumed - start !== Number(header.slice(1))) {
+      throw new Error('RDB transfer length does not match its header');
+    }
+
+    return version;
+  }
+
+  /**
+   * Reads the next command of the replication stream. REPLCONF GETACK is
+   * answered here; everything else, PING included, is returned.
+   */
+  async readCommand(): Promise<Buffer[]> {
+    const reader = this.requireReader();
+
+    while (true) {
+      const start = reader.consumed;
+      const header = await reader.readLine();
+      if (header === '') {
+        continue;
+      }
+      if (!header.startsWith('*')) {
+        throw new Error(`Unexpected data in replication stream: ${header.slice(0, 64)}`);
+      }
+
+      const args: Buffer[] = [];
+      const count = Number(header.slice(1));
+      if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`Unexpected data in replication stream: ${header.slice(0, 64)}`);
+      }
+      for (let i = 0; i < count; i++) {
+        const bulk = await reader.readLine();
+        const length = Number(bulk.slice(1));
+        if (!bulk.startsWith('$') || !Number.isInteger(length) || length < 0) {
+          throw new Error(`Unexpected data in replication stream: ${bulk.slice(0, 64)}`);
+        }
+        args.push(await reader.read(length));
+        await reader.read(2); // CRLF
+      }
+      this.advance(reader.consumed - start);
+
+      if (args.length >= 2 && args[0].toString().toLowerCase() === 'replconf'
+        && args[1].toString().toLowerCase() === 'getack') {
+        this.sendAck();
+        continue;
+      }
+      return args;
+    }
+  }
+
+  /**
+   * Reports the processed offset to the master every second, which keeps the
+   * link from timing out and shows the lag in the master's INFO replication.
+   */
+  startAcks(): void {
+    this.stopAcks();
+    this.ackTimer = setInterval(() => this.sendAck(), ACK_INTERVAL);
+  }
+
+  close(): void {
+    this.stopAcks();
+    this.socket?.destroy();
+    this.socket = null;
+    this.reader = null;
+  }
+
+  private stopAcks(): void {
+    if (this.ackTimer) {
+      clearInterval(this.ackTimer);
+      this.ackTimer = null;
+    }
+  }
+
+  private advance(bytes: number): void {
+    if (this.position) {
+      this.position.offset += bytes;
+    }
+  }
+
+  private sendAck(): void {
+    if (this.socket && this.position) {
+      this.socket.write(encodeCommand(['REPLCONF', 'ACK', String(this.position.offset)]));
+    }
+  }
+
+  private async request(args: string[]): Promise<string> {
+    this.socket?.write(encodeCommand(args));
+    const reply = await this.requireReader().readLine();
+    if (reply.startsWith('-')) {
+      throw new Error(`${args[0]} failed: ${reply.slice(1)}`);
+    }
+    return reply;
+  }
+
+  private requireReader(): SocketReader {
+    if (!this.reader) {
+      throw new Error('Replication link is not connected');
+    }
+    return this.reader;
+  }
+
+  private openSocket(): Promise<Socket> {
+    const { host, port, path } = this.config;
+    const tlsOptions = toTlsOptions(this.config);
+
+    return new Promise((resolve, reject) => {
+      const connected = () => {
+        socket.setTimeout(0);
+        resolve(socket);
+      };
+      const socket: Socket = tlsOptions
+        ? tls.connect({ ...tlsOptions, host, port, path }, connected)
+        : path
+          ? net.connect({ path }, connected)
+          : net.connect({ host, port }, connected);
+      socket.setTimeout(CONNECT_TIMEOUT, () => {
+        socket.destroy(new Error(`Timed out connecting to ${path || `${host}:${port}`}`));
+      });
+      socket.once('error', reject);
+    });
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+}
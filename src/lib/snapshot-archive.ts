@@ -0,0 +1,316 @@
+import { createReadStream, createWriteStream, promises as fs, ReadStream, WriteStream } from 'fs';
+import { once } from 'events';
+import { StringDecoder } from 'string_decoder';
+import { createGunzip, createGzip, Gzip } from 'zlib';
+import { RdbHandler, RdbKey, RdbStream, RdbValue } from './rdb-parser';
+
+// Portable snapshot archives: gzipped JSON lines, a header followed by one
+// record per key. Values are decoded, not DUMP payloads, so an archive loads
+// into a target of any Redis version. Big collections are split over
+// consecutive records, all but the last marked `continued`, which the reader
+// hands over one at a time so an import never holds the whole value either.
+
+export const ARCHIVE_FORMAT = 'redis-migrator-archive';
+export const ARCHIVE_VERSION = 3;
+
+export interface ArchiveHeader {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  createdAt: string;
+  source: string;              // host:port or socket path the snapshot was taken from
+}
+
+export interface ArchiveRecord {
+  db: number;
+  key: string;                 // base64 since version 3, UTF-8 text before
+  type: RdbValue['type'];
+  ttl: number;                 // Remaining ms when exported, -1 when the key never expires
+  expireAt: number;            // Unix time in ms, 0 when the key never expires
+  encoding: string;            // OBJECT ENCODING on the source, for reference
+  value: ArchiveValue;
+  continued?: boolean;         // The next record holds more of this key's value (version 2)
+}
+
+// Binary-safe parts are base64; scores, stream IDs and group names are kept as text
+type ArchiveValue = string | string[] | Array<[string, string]> | ArchiveStream;
+
+interface ArchiveStream {
+  entries: Array<[string, string[]]>;
+  lastId: string;
+  groups: RdbStream['groups'];
+}
+
+/**
+ * Builds the archive record of a decoded key. Module values cannot be
+ * archived and return null.
+ */
+export function toArchiveRecord(entry: RdbKey, encoding: string, exportedAt = Date.now()): ArchiveRecord | null {
+  const base64 = (buffer: Buffer) => buffer.toString('base64');
+  const { value } = entry;
+
+  let archived: ArchiveValue;
+  switch (value.type) {
+    case 'string': archived = base64(value.value); break;
+    case 'list': archived = value.items.map(base64); break;
+    case 'set': archived = value.members.map(base64); break;
+    case 'zset': archived = value.members.map(([member, score]): [string, string] => [base64(member), score]); break;
+    case 'hash': archived = value.fields.map(([field, fieldValue]): [string, string] => [base64(field), base64(fieldValue)]); break;
+    case 'stream':
+      archived = {
+        entries: value.stream.entries.map(([id, fields]): [string, string[]] => [id, fields.map(base64)]),
+        lastId: value.stream.lastId,
+        groups: value.stream.groups,
+      };
+      break;
+    default:
+      return null;
+  }
+
+  return {
+    db: entry.db,
+    key: base64(entry.key),
+    type: value.type,
+    ttl: entry.expireAt > 0 ? Math.max(0, entry.expireAt - exportedAt) : -1,
+    expireAt: entry.expireAt,
+    encoding,
+    value: archived,
+  };
+}
+
+/**
+ * Decodes an archive record back into the key form the RDB import writes.
+ * `version` is the archive's, since key names were text before version 3.
+ */
+export function fromArchiveRecord(record: ArchiveRecord, version = ARCHIVE_VERSION): RdbKey {
+  const buffer = (text: string) => Buffer.from(text, 'base64');
+  const { value } = record;
+
+  const decode = (): RdbValue => {
+    switch (record.type) {
+      case 'string': return { type: 'string', value: buffer(value as string) };
+      case 'list': return { type: 'list', items: (value as string[]).map(buffer) };
+      case 'set': return { type: 'set', members: (value as string[]).map(buffer) };
+      case 'zset':
+        return { type: 'zset', members: (value as Array<[string, string]>).map(([member, score]) => [buffer(member), score]) };
+      case 'hash':
+        return { type: 'hash', fields: (value as Array<[string, string]>).map(([field, fieldValue]) => [buffer(field), buffer(fieldValue)]) };
+      case 'stream': {
+        const stream = value as ArchiveStream;
+        return {
+          type: 'stream',
+          stream: {
+            entries: stream.entries.map(([id, fields]) => [id, fields.map(buffer)]),
+            lastId: stream.lastId,
+            groups: stream.groups,
+          },
+        };
+      }
+      default:
+        throw new Error(`Unsupported archive record type: ${record.type}`);
+    }
+  };
+
+  return {
+    db: Number(record.db),
+    key: version >= 3 ? buffer(String(record.key)) : Buffer.from(String(record.key)),
+    value: decode(),
+    expireAt: Number(record.expireAt) || 0,
+  };
+}
+
+/**
+ * Receives the keys of an archive. A key split over continued records
+ * comes through `onKeyChunk`, one record at a time: `first` marks the
+ * record starting it, `last` the one completing it. Stream metadata comes
+ * with the first record only.
+ */
+export interface ArchiveHandler extends RdbHandler {
+  onKeyChunk(chunk: RdbKey, first: boolean, last: boolean): Promise<void> | void;
+}
+
+/**
+ * Writes an archive to `<path>.partial` and links it into place once
+ * complete, so an interrupted export never leaves a truncated archive at
+ * `path`. Existing files are never overwritten.
+ */
+export class ArchiveWriter {
+  private constructor(
+    private path: string,
+    private gzip: Gzip,
+    private file: WriteStream,
+    private finished: Promise<void>
+  ) {}
+
+  static async create(path: string, source: string): Promise<ArchiveWriter> {
+    if (await fs.access(path).then(() => true, () => false)) {
+      throw new Error(`${path} already exists`);
+    }
+    const file = createWriteStream(`${path}.partial`, { flags: 'wx' });
+    await once(file, 'open');
+
+    const gzip = createGzip();
+    gzip.pipe(file);
+    const finished = new Promise<void>((resolve, reject) => {
+      file.on('close', resolve);
+      file.on('error', reject);
+      gzip.on('error', reject);
+    });
+    // Rejections are awaited in close(); until then they must not go unhandled
+    finished.catch(() => undefined);
+
+    const writer = new ArchiveWriter(path, gzip, file, finished);
+    const header: ArchiveHeader = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      createdAt: new Date().toISOString(),
+      source,
+    };
+    await writer.writeLine(header);
+    return writer;
+  }
+
+  write(record: ArchiveRecord): Promise<void> {
+    return this.writeLine(record);
+  }
+
+  async close(): Promise<void> {
+    this.gzip.end();
+    await this.finished;
+    // Unlike rename, link fails when a file appeared at `path` meanwhile
+    await fs.link(`${this.path}.partial`, this.path);
+    await fs.unlink(`${this.path}.partial`);
+  }
+
+  async abort(): Promise<void> {
+    this.gzip.destroy();
+    this.file.destroy();
+    await fs.unlink(`${this.path}.partial`).catch(() => undefined);
+  }
+
+  private async writeLine(line: object): Promise<void> {
+    if (!this.gzip.write(`${JSON.stringify(line)}\n`)) {
+      await once(this.gzip, 'drain');
+    }
+  }
+}
+
+/**
+ * Reads an archive record by record. `position` and `size` count compressed
+ * bytes, which tells how far through the file the import is.
+ */
+export class ArchiveReader {
+  private file: ReadStream;
+
+  private constructor(path: string, public readonly size: number) {
+    this.file = createReadStream(path);
+  }
+
+  static async open(path: string): Promise<ArchiveReader> {
+    const { size } = await fs.stat(path);
+    return new ArchiveReader(path, size);
+  }
+
+  get position(): number {
+    return this.file.bytesRead;
+  }
+
+  /**
+   * Hands every record to `handler.onKey`, or `handler.onKeyChunk` for keys
+   * split over several, waiting for each before reading on. Resolves with
+   * the archive's header once the whole file is read.
+   */
+  async read(handler: ArchiveHandler): Promise<ArchiveHeader> {
+    let header: ArchiveHeader | null = null;
+    let lineNumber = 0;
+    // A key whose remaining chunks are still to come
+    let partial = null as { db: number; key: Buffer; type: RdbValue['type'] } | null;
+
+    await this.readLines(async (line) => {
+      lineNumber++;
+      if (!line.trim()) {
+        return;
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${lineNumber} of the archive`);
+      }
+
+      if (!header) {
+        const candidate = parsed as ArchiveHeader;
+        if (candidate?.format !== ARCHIVE_FORMAT) {
+          throw new Error('Not a redis-migrator archive');
+        }
+        if (candidate.version > ARCHIVE_VERSION) {
+          throw new Error(`Unsupported archive version ${candidate.version}`);
+        }
+        header = candidate;
+        return;
+      }
+
+      const record = parsed as ArchiveRecord;
+      const entry = fromArchiveRecord(record, header.version);
+      if (!partial && !record.continued) {
+        await handler.onKey(entry);
+        return;
+      }
+
+      if (partial) {
+        if (partial.db !== entry.db || !partial.key.equals(entry.key)) {
+          throw new Error(`Line ${lineNumber} of the archive does not continue key ${partial.key}`);
+        }
+        if (partial.type !== entry.value.type) {
+          throw new Error(`A ${partial.type} record cannot be continued by a ${entry.value.type} record`);
+        }
+      }
+      const first = !partial;
+      partial = record.continued ? { db: entry.db, key: entry.key, type: entry.value.type } : null;
+      await handler.onKeyChunk(entry, first, !record.continued);
+    });
+
+    if (!header) {
+      throw new Error('The archive is empty');
+    }
+    if (partial) {
+      throw new Error(`The archive ends in the middle of key ${partial.key}`);
+    }
+    return header;
+  }
+
+  close(): void {
+    this.file.destroy();
+  }
+
+  /**
+   * Splits the decompressed file into lines, pausing decompression while
+   * `onLine` works through a chunk.
+   */
+  private readLines(onLine: (line: string) => Promise<void>): Promise<void> {
+    const gunzip = this.file.pipe(createGunzip());
+    const decoder = new StringDecoder('utf8');
+    let rest = '';
+
+    return new Promise((resolve, reject) => {
+      const fail = (error: Error) => {
+        gunzip.destroy();
+        reject(error);
+      };
+
+      gunzip.on('data', (chunk: Buffer) => {
+        gunzip.pause();
+        const lines = (rest + decoder.write(chunk)).split('\n');
+        rest = lines.pop() ?? '';
+
+        lines.reduce((previous, line) => previous.then(() => onLine(line)), Promise.resolve())
+          .then(() => gunzip.resume(), fail);
+      });
+      gunzip.on('end', () => {
+        onLine(rest + decoder.end()).then(resolve, reject);
+      });
+      gunzip.on('error', (error) => fail(new Error(`Failed to decompress the archive: ${error.message}`)));
+      this.file.on('error', fail);
+    });
+  }
+}